@@ -0,0 +1,179 @@
+/**
+ * Run Artifacts
+ *
+ * Screenshots, traces and reports are grouped per run under
+ * <artifactDir>/runs/<runId>/. Each run folder holds a run.json record
+ * with the outcome, which cleanup uses to keep proof of every booking,
+ * including submits whose confirmation could not be read.
+ *
+ * The artifact directory comes from UPS_ARTIFACT_DIR, then "artifactDir"
+ * in config.json, then the default below.
+ */
+
+import { existsSync, readdirSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { join } from "path";
+import type { Config } from "./types.js";
+
+export const DEFAULT_ARTIFACT_DIR = "/home/USER/biz/.playwright-mcp";
+
+const RUNS_DIR = "runs";
+const RUN_RECORD = "run.json";
+
+// Screenshots written before runs were grouped, e.g. ups-form-preview-1767861574199.png
+const LOOSE_ARTIFACT_PATTERN = /^ups-.*\.(png|json)$/;
+// Loose confirmation screenshots are the only proof of those bookings, so they are never pruned
+const LOOSE_CONFIRMATION_PATTERN = /^ups-confirmation-/;
+// Schedule was clicked but no confirmation was read: the run may be all there is to reconcile the booking with
+const UNCONFIRMED_CODE = "CONFIRMATION_NOT_PARSED";
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface RunRecord {
+  runId: string;
+  operation: string;
+  startedAt: string;
+  finishedAt: string;
+  success: boolean;
+  code?: string;
+  confirmationNumber: string | null;
+}
+
+export interface CleanupOptions {
+  /** Remove runs older than this, e.g. "30d", "12h", "2w" */
+  olderThan?: string;
+  /** Always keep this many of the newest runs */
+  keepLast?: number;
+  /** Report what would be removed without deleting anything */
+  dryRun?: boolean;
+}
+
+export interface CleanupResult {
+  removed: string[];
+  kept: number;
+  /** Runs kept because they hold a booking confirmation */
+  confirmed: string[];
+  /** Runs kept because they were submitted but no confirmation was read */
+  unconfirmed: string[];
+  looseFilesRemoved: number;
+  /** Old loose confirmation screenshots left in place */
+  looseConfirmationsKept: number;
+}
+
+/** Artifact root: UPS_ARTIFACT_DIR (or the older UPS_SCREENSHOT_DIR), then config, then the default. */
+export function resolveArtifactDir(config?: Pick<Config, "artifactDir">): string {
+  return process.env.UPS_ARTIFACT_DIR || process.env.UPS_SCREENSHOT_DIR || config?.artifactDir || DEFAULT_ARTIFACT_DIR;
+}
+
+export function runsDir(artifactDir: string): string {
+  return join(artifactDir, RUNS_DIR);
+}
+
+/** Sortable run ID, e.g. 2026-10-19T09-30-00-000Z-book */
+export function newRunId(operation: string, now: Date = new Date()): string {
+  return `${now.toISOString().replace(/[:.]/g, "-")}-${operation}`;
+}
+
+/** Parses "30d", "12h" or "2w" into milliseconds. */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([hdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}". Use a number followed by h, d or w (e.g. 30d)`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()];
+}
+
+export function readRunRecord(runDir: string): RunRecord | null {
+  const path = join(runDir, RUN_RECORD);
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Writes a run's outcome. A later operation in the same run (submit after
+ * fill-form) updates the record but never drops a confirmation number.
+ */
+export function writeRunRecord(runDir: string, record: RunRecord): void {
+  const existing = readRunRecord(runDir);
+  writeFileSync(join(runDir, RUN_RECORD), JSON.stringify({
+    ...record,
+    startedAt: existing?.startedAt || record.startedAt,
+    confirmationNumber: record.confirmationNumber || existing?.confirmationNumber || null,
+  }, null, 2));
+}
+
+/**
+ * Prunes run folders by age and/or count.
+ *
+ * A run is removed only if it is outside the newest `keepLast` runs and
+ * older than `olderThan` (whichever are given). Runs with a confirmation
+ * number, or that submitted without one being read, are always kept. With `olderThan`, loose screenshots left in the
+ * artifact root by older versions are pruned by age too, except
+ * confirmation screenshots.
+ */
+export function cleanupArtifacts(artifactDir: string, options: CleanupOptions, now: Date = new Date()): CleanupResult {
+  if (!options.olderThan && options.keepLast === undefined) {
+    throw new Error("Pass --older-than, --keep-last or both");
+  }
+  const cutoff = options.olderThan ? now.getTime() - parseDuration(options.olderThan) : Infinity;
+
+  const root = runsDir(artifactDir);
+  const runs = existsSync(root)
+    ? readdirSync(root, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => {
+        const dir = join(root, entry.name);
+        const record = readRunRecord(dir);
+        const startedAt = record ? Date.parse(record.startedAt) : statSync(dir).mtimeMs;
+        return { runId: entry.name, dir, record, startedAt };
+      })
+      .sort((a, b) => b.startedAt - a.startedAt)
+    : [];
+
+  const result: CleanupResult = { removed: [], kept: 0, confirmed: [], unconfirmed: [], looseFilesRemoved: 0, looseConfirmationsKept: 0 };
+  runs.forEach((run, index) => {
+    const withinKeepLast = options.keepLast !== undefined && index < options.keepLast;
+    if (run.record?.confirmationNumber) {
+      result.confirmed.push(run.runId);
+      result.kept++;
+    } else if (run.record?.code === UNCONFIRMED_CODE) {
+      result.unconfirmed.push(run.runId);
+      result.kept++;
+    } else if (withinKeepLast || run.startedAt >= cutoff) {
+      result.kept++;
+    } else {
+      if (!options.dryRun) {
+        rmSync(run.dir, { recursive: true, force: true });
+      }
+      result.removed.push(run.runId);
+    }
+  });
+
+  if (options.olderThan && existsSync(artifactDir)) {
+    for (const name of readdirSync(artifactDir)) {
+      const path = join(artifactDir, name);
+      if (!LOOSE_ARTIFACT_PATTERN.test(name) || statSync(path).mtimeMs >= cutoff) {
+        continue;
+      }
+      if (LOOSE_CONFIRMATION_PATTERN.test(name)) {
+        result.looseConfirmationsKept++;
+      } else {
+        if (!options.dryRun) {
+          rmSync(path, { force: true });
+        }
+        result.looseFilesRemoved++;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,55 @@
+/**
+ * Saved Login State
+ *
+ * Cookies and local storage from the last successful UPS login, saved
+ * with Playwright's storageState so later runs can skip the login form.
+ *
+ * The file holds live session cookies, so it is written owner-only and
+ * deleted once it is older than the max age ("authStateMaxAgeHours" in
+ * config.json) or by the logout command.
+ */
+
+import { chmodSync, existsSync, mkdirSync, statSync, unlinkSync } from "fs";
+import { dirname } from "path";
+import type { BrowserContext } from "playwright";
+
+export const AUTH_STATE_PATH = process.env.UPS_AUTH_STATE_PATH || "/tmp/ups-browser-profile/storage-state.json";
+
+export const DEFAULT_AUTH_MAX_AGE_HOURS = 12;
+
+/**
+ * Returns the saved state's path if it is younger than maxAgeHours,
+ * otherwise deletes any expired state and returns null.
+ *
+ * @param maxAgeHours - 0 disables reuse
+ */
+export function freshAuthState(maxAgeHours = DEFAULT_AUTH_MAX_AGE_HOURS, now: number = Date.now()): string | null {
+  if (!existsSync(AUTH_STATE_PATH)) {
+    return null;
+  }
+  if (maxAgeHours > 0 && now - statSync(AUTH_STATE_PATH).mtimeMs < maxAgeHours * 60 * 60 * 1000) {
+    return AUTH_STATE_PATH;
+  }
+  clearAuthState();
+  return null;
+}
+
+/** Saves the context's cookies and storage after a successful login. */
+export async function saveAuthState(context: BrowserContext): Promise<void> {
+  mkdirSync(dirname(AUTH_STATE_PATH), { recursive: true });
+  await context.storageState({ path: AUTH_STATE_PATH });
+  chmodSync(AUTH_STATE_PATH, 0o600);
+}
+
+/** Deletes the saved state; returns whether there was one. */
+export function clearAuthState(): boolean {
+  if (!existsSync(AUTH_STATE_PATH)) {
+    return false;
+  }
+  try {
+    unlinkSync(AUTH_STATE_PATH);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,1679 @@
+/**
+ * UPS Browser Booking Driver
+ *
+ * Books collections through the UPS web interface using Playwright
+ * with stealth mode.
+ *
+ * Key features:
+ * - Login: Automated two-step authentication
+ * - Form fill: Fills the collection form from a resolved FormState
+ * - Submit: Completes booking and extracts confirmation
+ * - Screenshots: Captures state at each step for verification
+ *
+ * Uses a headed browser with the stealth plugin to avoid bot detection by
+ * default; launch profiles (see launch-profile.ts) can run it headless.
+ * Sessions are persisted for reconnection between operations.
+ *
+ * Locators live in selectors.ts. Each run records which fallback matched
+ * for every step in a selector-health report.
+ *
+ * Each run writes its screenshots and selector-health report to its own
+ * folder under <artifactDir>/runs/<runId> (see artifacts.ts). With trace
+ * enabled the folder also gets a Playwright trace and HAR.
+ *
+ * Navigation, login, form filling and the move to the review page are
+ * retried under the policy in retry.ts. Schedule is clicked at most once
+ * per filled form.
+ */
+
+import { chromium } from "playwright-extra";
+import StealthPlugin from "puppeteer-extra-plugin-stealth";
+import { Browser, Page, BrowserContext, ElementHandle, Request } from "playwright";
+import { existsSync, unlinkSync, mkdirSync, writeFileSync } from "fs";
+import { createServer } from "net";
+import type { AddressInfo } from "net";
+import { dirname, join } from "path";
+import {
+  SessionState,
+  canTransition,
+  clearSession,
+  devtoolsEndpoint,
+  readSession,
+  transitionSession,
+  updateSession,
+} from "./session.js";
+import { UPSError, errorCodeOf, errorResult, toErrorResult } from "./errors.js";
+import { newRunId, resolveArtifactDir, runsDir } from "./artifacts.js";
+import { CodeSource, obtainVerificationCode } from "./verification-code.js";
+import { ResolvedLaunchProfile, resolveLaunchProfile } from "./launch-profile.js";
+import { RetryRecord, RetryStep, retryPolicy, withRetry } from "./retry.js";
+import { AUTH_STATE_PATH, DEFAULT_AUTH_MAX_AGE_HOURS, clearAuthState, freshAuthState, saveAuthState } from "./auth-state.js";
+import {
+  FieldName,
+  SelectorHealth,
+  SelectorHealthSummary,
+  SelectorRegistry,
+  SelectorStep,
+  resolveSelectors,
+} from "./selectors.js";
+import type {
+  BookingDriver,
+  Config,
+  FieldCheck,
+  FormState,
+  LaunchOverrides,
+  PlanOperation,
+  RunArtifacts,
+  RunOptions,
+  ScreenshotOptions,
+  UrlConfig,
+} from "./types.js";
+
+// Add stealth plugin to evade bot detection
+chromium.use(StealthPlugin());
+
+// Paths
+// Profile directory - holds the saved login state (see auth-state.ts)
+// Using /tmp to avoid WSL2 symlink issues with SingletonLock
+const USER_DATA_DIR = dirname(AUTH_STATE_PATH);
+
+// UPS URLs (overridable via "urls" in config.json)
+const UPS_LOGIN_URL = "https://www.ups.com/lasso/login?loc=en_GB&returnto=https://wwwapps.ups.com/pickup/schedule?loc=en_GB";
+const UPS_FORM_URL = "https://wwwapps.ups.com/pickup/schedule?loc=en_GB";
+const UPS_HISTORY_URL = "https://wwwapps.ups.com/pickup/history?loc=en_GB";
+
+// A free local port for Chrome's DevTools server
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+// One HAR 1.2 entry for a finished or failed request; bodies are not kept
+async function harEntry(request: Request): Promise<Record<string, unknown>> {
+  const response = await request.response().catch(() => null);
+  const timing = request.timing();
+  const url = new URL(request.url());
+  const pairs = (values: Iterable<[string, string]>) => Array.from(values, ([name, value]) => ({ name, value }));
+  const responseHeaders = response?.headers() ?? {};
+  const wait = Math.max(timing.responseStart - timing.requestStart, 0);
+  const receive = Math.max(timing.responseEnd - timing.responseStart, 0);
+
+  return {
+    startedDateTime: new Date(timing.startTime).toISOString(),
+    time: wait + receive,
+    request: {
+      method: request.method(),
+      url: request.url(),
+      httpVersion: "HTTP/1.1",
+      headers: pairs(Object.entries(request.headers())),
+      queryString: pairs(url.searchParams),
+      cookies: [],
+      headersSize: -1,
+      bodySize: request.postData()?.length ?? 0,
+    },
+    response: {
+      status: response?.status() ?? 0,
+      statusText: response ? response.statusText() : request.failure()?.errorText ?? "",
+      httpVersion: "HTTP/1.1",
+      headers: pairs(Object.entries(responseHeaders)),
+      cookies: [],
+      content: { size: -1, mimeType: responseHeaders["content-type"] ?? "" },
+      redirectURL: responseHeaders.location ?? "",
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { send: 0, wait, receive },
+  };
+}
+
+interface FilledField {
+  field: string;
+  required: boolean;
+  expected: string;
+  handle: ElementHandle | null;
+}
+
+export class BrowserDriver implements BookingDriver {
+  readonly name = "browser" as const;
+  private config: Config;
+  private urls: Required<UrlConfig>;
+  private browser: Browser | null = null;
+  // CDP endpoint of the browser, recorded in the session for status and reconnection
+  private wsEndpoint: string | null = null;
+  private context: BrowserContext | null = null;
+  private page: Page | null = null;
+  private selectors: SelectorRegistry;
+  private health: SelectorHealth;
+  // Artifact root; screenshots outside a run (the screenshot command) land here
+  private artifactRoot: string;
+  private artifactDir: string;
+  private run:
+    | (RunOptions & { runId: string; dir: string; tracing: boolean; har: string | null; harEntries: Promise<Record<string, unknown>>[] })
+    | null = null;
+  // Whether tracing has been started on the current context; each traced run records a chunk of it
+  private tracingStarted = false;
+  // The context may already be logged in (saved state loaded, or logged in earlier in this process)
+  private hasLogin = false;
+  // Whether the last login() skipped the login form
+  private loginReused = false;
+  // Launch settings of the browser this process started
+  private launch: ResolvedLaunchProfile | null = null;
+  // Set when the last login() had to answer a verification-code challenge
+  private loginChallenge: { source: CodeSource } | null = null;
+  // Steps retried during the current run
+  private retryLog: RetryRecord[] = [];
+
+  constructor(config: Config) {
+    this.config = config;
+    this.artifactRoot = resolveArtifactDir(config);
+    this.artifactDir = this.artifactRoot;
+    this.selectors = resolveSelectors(config.selectors);
+    this.health = new SelectorHealth(this.selectors, join(this.artifactRoot, "selector-health.json"));
+    this.urls = {
+      login: config.urls?.login || UPS_LOGIN_URL,
+      form: config.urls?.form || UPS_FORM_URL,
+      history: config.urls?.history || UPS_HISTORY_URL,
+    };
+    // Ensure artifact directory exists
+    if (!existsSync(this.artifactRoot)) {
+      mkdirSync(this.artifactRoot, { recursive: true });
+    }
+  }
+
+  // ============================================
+  // INTERNAL
+  // ============================================
+
+  private async ensureBrowser(): Promise<Page> {
+    // Reuse the page this process already opened
+    if (this.page && !this.page.isClosed()) {
+      await this.startTracing();
+      return this.page;
+    }
+
+    // Ensure persistent profile directory exists
+    if (!existsSync(USER_DATA_DIR)) {
+      mkdirSync(USER_DATA_DIR, { recursive: true });
+    }
+
+    // Try to reconnect to existing session
+    const session = readSession();
+    if (session?.wsEndpoint) {
+      try {
+        this.browser = await chromium.connectOverCDP(session.wsEndpoint);
+        this.wsEndpoint = session.wsEndpoint;
+        const contexts = this.browser.contexts();
+        if (contexts.length > 0) {
+          this.context = contexts[0];
+          this.watchRequests(this.context);
+          const pages = this.context.pages();
+          if (pages.length > 0) {
+            this.page = pages[0];
+            await this.startTracing();
+            return this.page;
+          }
+        }
+      } catch {
+        // Session invalid, clean up
+        clearSession();
+      }
+    }
+
+    // Clean up any stale singleton files that may interfere
+    const singletonFiles = ['SingletonLock', 'SingletonSocket', 'SingletonCookie'];
+    for (const file of singletonFiles) {
+      const filePath = `${USER_DATA_DIR}/${file}`;
+      if (existsSync(filePath)) {
+        try {
+          unlinkSync(filePath);
+        } catch {
+          // Ignore errors
+        }
+      }
+    }
+
+    // Launch browser - using regular launch without persistent context
+    // This avoids WSL2 singleton issues; the login is carried over with
+    // saved storage state instead
+    const launch = resolveLaunchProfile(this.config, this.run?.launch);
+    // Playwright talks to the browser over a pipe; a DevTools port lets
+    // status and later commands find it too
+    const configuredPort = launch.args.find((arg) => arg.startsWith("--remote-debugging-port="));
+    const debuggingPort = Number(configuredPort?.split("=")[1]) || (await freePort());
+    this.browser = await chromium.launch({
+      headless: launch.headless,
+      args: [...launch.args.filter((arg) => arg !== configuredPort), `--remote-debugging-port=${debuggingPort}`],
+      ...(launch.executablePath ? { executablePath: launch.executablePath } : {}),
+    });
+    this.launch = launch;
+    this.wsEndpoint = await devtoolsEndpoint(debuggingPort);
+
+    // Create context with the profile's viewport, locale and timezone
+    const storageState = freshAuthState(this.config.authStateMaxAgeHours ?? DEFAULT_AUTH_MAX_AGE_HOURS);
+    this.context = await this.browser.newContext({
+      viewport: launch.viewport,
+      ...(launch.locale ? { locale: launch.locale } : {}),
+      ...(launch.timezone ? { timezoneId: launch.timezone } : {}),
+      ...(storageState ? { storageState } : {}),
+    });
+    this.hasLogin = !!storageState;
+    this.watchRequests(this.context);
+    await this.startTracing();
+
+    // Create page
+    this.page = await this.context.newPage();
+
+    // Save endpoint for reconnection. A browser relaunched mid-booking
+    // (e.g. submit after fill-form) keeps the booking's state
+    const updates = { wsEndpoint: this.wsEndpoint ?? undefined, driver: this.name };
+    if (canTransition(readSession()?.state ?? "idle", "browser-up")) {
+      transitionSession("browser-up", updates);
+    } else {
+      updateSession(updates);
+    }
+
+    return this.page;
+  }
+
+  /** Moves the session state on, recording the page the browser is on. */
+  private advance(state: SessionState, updates: { formState?: FormState; scheduleClickedAt?: string } = {}): void {
+    transitionSession(state, { driver: this.name, pageUrl: this.page?.url(), ...updates });
+  }
+
+  /**
+   * Returns the first element matching a step's selectors, trying them in
+   * fallback order, and records which one matched.
+   */
+  private async findElement(
+    page: Page,
+    step: SelectorStep,
+    options: { timeout?: number; visible?: boolean; optional?: boolean } = {}
+  ): Promise<ElementHandle | null> {
+    const candidates = this.selectors.steps[step];
+    for (const [index, selector] of candidates.entries()) {
+      try {
+        const element = options.timeout
+          ? await page.waitForSelector(selector, { timeout: options.timeout })
+          : await page.$(selector);
+        if (element && (!options.visible || (await element.isVisible()))) {
+          this.health.record(step, candidates, index);
+          return element;
+        }
+      } catch {
+        continue;
+      }
+    }
+    this.health.record(step, candidates, -1, options.optional);
+    return null;
+  }
+
+  /** Clicks the first visible element for a step; returns false if none was found. */
+  private async clickElement(
+    page: Page,
+    step: SelectorStep,
+    options: { scroll?: boolean; optional?: boolean } = {}
+  ): Promise<boolean> {
+    const element = await this.findElement(page, step, { visible: true, optional: options.optional });
+    if (!element) {
+      return false;
+    }
+    try {
+      if (options.scroll !== false) {
+        await element.scrollIntoViewIfNeeded();
+      }
+      await element.click({ force: true });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Runs a step under its retry policy, logging each retry for the result. */
+  private retrying<T>(step: RetryStep, operation: (attempt: number) => Promise<T>): Promise<T> {
+    return withRetry(step, retryPolicy(this.config.retry, step), operation, this.retryLog);
+  }
+
+  /** Opens a page, retrying slow loads. */
+  private async goto(page: Page, url: string, timeout: number): Promise<void> {
+    await this.retrying("navigation", () => page.goto(url, { waitUntil: "domcontentloaded", timeout }));
+  }
+
+  /**
+   * Clicks Schedule on the review page. Finding the button is retried, the
+   * click is not: it happens at most once per filled form, and the session
+   * records it so no retry or later submit can book the collection twice.
+   *
+   * @throws UPSError CONFIRMATION_NOT_PARSED if Schedule was already clicked for this form
+   */
+  private async clickScheduleOnce(page: Page, reviewScreenshot: string): Promise<void> {
+    const clickedAt = readSession()?.scheduleClickedAt;
+    if (clickedAt) {
+      throw new UPSError("CONFIRMATION_NOT_PARSED", `Schedule was already clicked at ${clickedAt} for this form; not clicking it again`, {
+        reviewScreenshot,
+        scheduleClickedAt: clickedAt,
+      });
+    }
+
+    const button = await this.retrying("submit", async () => {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+      await page.waitForTimeout(500);
+      const found = await this.findElement(page, "scheduleButton", { visible: true });
+      if (found) {
+        return found;
+      }
+      // Fall back to any visible button that reads like a submit
+      const fallback = await page.evaluateHandle(() => {
+        const buttons = Array.from(document.querySelectorAll('button'));
+        return buttons.find(b =>
+          (b.textContent?.toLowerCase().includes('schedule') ||
+           b.textContent?.toLowerCase().includes('submit') ||
+           b.textContent?.toLowerCase().includes('confirm')) &&
+          b.offsetParent !== null
+        ) || null;
+      });
+      const element = fallback.asElement();
+      if (!element) {
+        throw new UPSError("SUBMIT_BUTTON_NOT_FOUND", "Could not find the Schedule button on the review page", {
+          reviewScreenshot,
+        });
+      }
+      return element;
+    });
+
+    updateSession({ scheduleClickedAt: new Date().toISOString() });
+    await button.click({ force: true });
+  }
+
+  /** Starts recording a trace chunk on the current context if this run asked for one. */
+  private async startTracing(): Promise<void> {
+    if (!this.run?.trace || this.run.tracing || !this.context) {
+      return;
+    }
+    if (!this.tracingStarted) {
+      await this.context.tracing.start({ screenshots: true, snapshots: true });
+      this.tracingStarted = true;
+    }
+    await this.context.tracing.startChunk({ title: this.run.runId });
+    this.run.tracing = true;
+  }
+
+  /** Saves the run's trace chunk, leaving the browser open for the next command. */
+  private async saveTrace(): Promise<void> {
+    if (!this.run?.tracing || !this.context) {
+      return;
+    }
+    try {
+      await this.context.tracing.stopChunk({ path: join(this.run.dir, `trace-${this.run.operation}.zip`) });
+    } finally {
+      this.run.tracing = false;
+    }
+  }
+
+  /** Collects the context's requests into the HAR of whichever traced run is current. */
+  private watchRequests(context: BrowserContext): void {
+    const record = (request: Request) => {
+      if (this.run?.har) {
+        this.run.harEntries.push(harEntry(request));
+      }
+    };
+    context.on("requestfinished", record);
+    context.on("requestfailed", record);
+  }
+
+  /** Writes the requests seen during the run as a HAR, if it recorded any. */
+  private async saveHar(): Promise<void> {
+    if (!this.run?.har || this.run.harEntries.length === 0) {
+      return;
+    }
+    const entries = await Promise.all(this.run.harEntries);
+    const log = { version: "1.2", creator: { name: "ups-collection-scripts", version: "1.0.0" }, pages: [], entries };
+    writeFileSync(this.run.har, JSON.stringify({ log }, null, 2));
+  }
+
+  /** Closes the browser. A running trace chunk is saved first. */
+  private async closeBrowser(): Promise<void> {
+    await this.saveTrace();
+    this.tracingStarted = false;
+    if (this.context) {
+      await this.context.close();
+    }
+    if (this.browser) {
+      await this.browser.close();
+    }
+    this.browser = null;
+    this.wsEndpoint = null;
+    this.context = null;
+    this.page = null;
+    this.hasLogin = false;
+  }
+
+  /**
+   * Prepares the next operation: screenshots and reports go to
+   * runs/<runId>, and with trace the browser context records a Playwright
+   * trace chunk and the requests for a HAR.
+   */
+  startRun(options: RunOptions): void {
+    const runId = options.runId || newRunId(options.operation);
+    const dir = join(runsDir(this.artifactRoot), runId);
+    mkdirSync(dir, { recursive: true });
+    const har = options.trace ? join(dir, `network-${options.operation}.har`) : null;
+    this.run = { ...options, runId, dir, tracing: false, har, harEntries: [] };
+    this.artifactDir = dir;
+    this.retryLog = [];
+    this.health = new SelectorHealth(this.selectors, join(dir, "selector-health.json"));
+  }
+
+  /**
+   * Ends the run and returns where its artifacts are. A traced run saves
+   * its trace chunk and HAR; the browser stays open, so a traced fill-form
+   * can still be submitted.
+   */
+  async finishRun(): Promise<RunArtifacts | null> {
+    if (!this.run) {
+      return null;
+    }
+    const run = this.run;
+    const trace = join(run.dir, `trace-${run.operation}.zip`);
+    const traced = run.tracing || existsSync(trace);
+    await this.saveTrace();
+    await this.saveHar();
+
+    this.run = null;
+    this.artifactDir = this.artifactRoot;
+    return {
+      runId: run.runId,
+      dir: run.dir,
+      trace: traced ? trace : null,
+      har: run.har && existsSync(run.har) ? run.har : null,
+    };
+  }
+
+  /** Launch settings of the browser in use, or null if this process has not launched one. */
+  launchProfile(): ResolvedLaunchProfile | null {
+    return this.launch;
+  }
+
+  /** Steps retried during this run, in order. */
+  retries(): RetryRecord[] {
+    return this.retryLog;
+  }
+
+  /** Saves the selector-health report for this run, or returns null if no selectors were used. */
+  saveSelectorHealth(): SelectorHealthSummary | null {
+    return this.health.recorded ? this.health.save() : null;
+  }
+
+  private async dismissCookieBanners(page: Page): Promise<void> {
+    // Wait a bit for the cookie banner to appear
+    await page.waitForTimeout(2000);
+
+    // First try to remove overlays via JavaScript - most reliable
+    try {
+      await page.evaluate(() => {
+        // Remove OneTrust overlays
+        document.querySelectorAll('#onetrust-consent-sdk, .onetrust-pc-dark-filter, #onetrust-banner-sdk').forEach(el => el.remove());
+        // Remove any other common cookie overlays
+        document.querySelectorAll('[class*="cookie-overlay"], [class*="consent-overlay"], [id*="cookie-banner"]').forEach(el => el.remove());
+        // Reset body scroll if locked
+        document.body.style.overflow = '';
+      });
+    } catch {
+      // Ignore errors
+    }
+
+    // Then try clicking accept buttons
+    const acceptButton = await this.findElement(page, "cookieAccept", { optional: true });
+    if (acceptButton) {
+      try {
+        await acceptButton.click({ force: true, timeout: 5000 });
+        await page.waitForTimeout(500);
+      } catch {
+        // Banner went away on its own
+      }
+    }
+
+    // Final cleanup - remove any remaining overlays
+    try {
+      await page.evaluate(() => {
+        document.querySelectorAll('#onetrust-consent-sdk, .onetrust-pc-dark-filter').forEach(el => el.remove());
+      });
+    } catch {
+      // Ignore errors
+    }
+  }
+
+  /** Logs in, retrying when a login page field is slow to appear. */
+  private async login(): Promise<boolean> {
+    return this.retrying("login", () => this.attemptLogin());
+  }
+
+  private async attemptLogin(): Promise<boolean> {
+    const page = await this.ensureBrowser();
+
+    this.loginChallenge = null;
+
+    // A code given for a challenge an earlier command left open answers it in place
+    if (this.run?.verificationCode && (await this.findElement(page, "verificationCode", { visible: true, optional: true }))) {
+      this.loginReused = false;
+      const source = await this.answerChallenge(page);
+      return this.finishLogin(page, await this.waitForLogin(page, false), source);
+    }
+
+    // Skip the login form while the saved (or earlier) login still works
+    if (this.hasLogin) {
+      if (await this.hasValidLogin(page)) {
+        this.loginReused = true;
+        this.advance("logged-in");
+        return true;
+      }
+      this.hasLogin = false;
+      clearAuthState();
+    }
+    this.loginReused = false;
+
+    // Navigate to login page - use domcontentloaded for faster initial load, then wait for page to stabilize
+    await this.goto(page, this.urls.login, 90000);
+    // Give the page extra time to load dynamic content
+    await page.waitForTimeout(5000);
+
+    // Handle cookie consent banners (OneTrust, etc.)
+    await this.dismissCookieBanners(page);
+
+    // Take screenshot of login page to see what we're working with
+    const loginScreenshot = `${this.artifactDir}/ups-login-page-${Date.now()}.png`;
+    await page.screenshot({ path: loginScreenshot, fullPage: true });
+
+    // UPS now uses Auth0-style login (id.ups.com) with two-step flow:
+    // Step 1: Enter username/email
+    // Step 2: Enter password
+
+    // Wait for username/email field
+    const usernameField = await this.findElement(page, "loginUsername", { timeout: 10000 });
+
+    if (!usernameField) {
+      const errorScreenshot = `${this.artifactDir}/ups-login-error-no-username-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+      throw new UPSError("LOGIN_FIELD_MISSING", `Could not find username field. See screenshot: ${errorScreenshot}`, {
+        screenshot: errorScreenshot,
+      });
+    }
+
+    // Fill username
+    await usernameField.fill(this.config.ups.username);
+
+    // Click continue/next button for two-step login
+    const continueButton = await this.findElement(page, "loginContinue", { optional: true });
+    if (continueButton) {
+      await continueButton.click({ force: true });
+      await page.waitForTimeout(2000);
+      // Dismiss any cookie banners that might have appeared
+      await this.dismissCookieBanners(page);
+    }
+
+    // Wait for password field to appear (may be on same page or new step)
+    const passwordField = await this.findElement(page, "loginPassword", { timeout: 15000 });
+
+    if (!passwordField) {
+      const errorScreenshot = `${this.artifactDir}/ups-login-error-no-password-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+      throw new UPSError("LOGIN_FIELD_MISSING", `Could not find password field. See screenshot: ${errorScreenshot}`, {
+        screenshot: errorScreenshot,
+      });
+    }
+
+    // Fill password
+    await passwordField.fill(this.config.ups.password);
+
+    // Click login/submit button
+    const loginButton = await this.findElement(page, "loginSubmit");
+    if (loginButton) {
+      await loginButton.click({ force: true });
+    }
+
+    // Wait for successful login - either redirect to form or user icon appears,
+    // or a one-time-code challenge
+    let outcome = await this.waitForLogin(page, true);
+    let challengeSource: CodeSource | null = null;
+    if (outcome === "challenge") {
+      challengeSource = await this.answerChallenge(page);
+      outcome = await this.waitForLogin(page, false);
+    }
+    return this.finishLogin(page, outcome, challengeSource);
+  }
+
+  /** Reports a failed login, or saves a successful one for the next run. */
+  private async finishLogin(page: Page, outcome: "success" | "challenge" | "failed", challengeSource: CodeSource | null): Promise<boolean> {
+    if (outcome === "failed") {
+      // Take screenshot of login failure
+      const errorScreenshot = `${this.artifactDir}/ups-login-error-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+      if (challengeSource) {
+        throw new UPSError(
+          "VERIFICATION_FAILED",
+          `UPS did not accept the verification code from ${challengeSource}. See screenshot: ${errorScreenshot}`,
+          { screenshot: errorScreenshot, challenge: true }
+        );
+      }
+      throw new UPSError("CREDENTIALS_REJECTED", `Login failed. See screenshot: ${errorScreenshot}`, {
+        screenshot: errorScreenshot,
+      });
+    }
+
+    this.loginChallenge = challengeSource ? { source: challengeSource } : null;
+
+    // Keep the login for the next run; a failed save just means logging in again
+    try {
+      await saveAuthState(this.context!);
+    } catch {
+      // Ignore save errors
+    }
+    this.hasLogin = true;
+
+    this.advance("logged-in");
+    return true;
+  }
+
+  /** Waits for the login to land, or (if allowed) for a verification-code challenge. */
+  private async waitForLogin(page: Page, allowChallenge: boolean): Promise<"success" | "challenge" | "failed"> {
+    try {
+      return await Promise.race([
+        page.waitForURL(/pickup|wwwapps\.ups\.com/, { timeout: 60000 }).then(() => "success" as const),
+        page.waitForSelector(this.selectors.steps.loginSuccess.join(", "), { timeout: 60000 }).then(() => "success" as const),
+        ...(allowChallenge
+          ? [page.waitForSelector(this.selectors.steps.verificationCode.join(", "), { state: "visible", timeout: 60000 })
+            .then(() => "challenge" as const)]
+          : []),
+      ]);
+    } catch {
+      return "failed";
+    }
+  }
+
+  /**
+   * Enters a one-time code on the "verify it's you" step: the one given
+   * with --verification-code, else one from the sources in
+   * ups.verification (see verification-code.ts).
+   *
+   * @returns Where the code came from
+   */
+  private async answerChallenge(page: Page): Promise<CodeSource> {
+    const challengedAt = Date.now();
+    const challengeScreenshot = `${this.artifactDir}/ups-login-challenge-${challengedAt}.png`;
+    await page.screenshot({ path: challengeScreenshot, fullPage: true });
+
+    const given = this.run?.verificationCode?.trim();
+    const { code, source, tried } = given
+      ? { code: given, source: "option" as const, tried: [] }
+      : await obtainVerificationCode(this.config.ups.verification, challengedAt);
+    if (!code || !source) {
+      throw new UPSError("VERIFICATION_REQUIRED", `UPS asked for a verification code and none could be obtained (${tried.join("; ")})`, {
+        screenshot: challengeScreenshot,
+        challenge: true,
+        tried,
+      });
+    }
+
+    const codeField = await this.findElement(page, "verificationCode", { visible: true });
+    if (!codeField) {
+      throw new UPSError("LOGIN_FIELD_MISSING", `Could not find the verification code field. See screenshot: ${challengeScreenshot}`, {
+        screenshot: challengeScreenshot,
+        challenge: true,
+      });
+    }
+    await codeField.fill(code);
+    await this.clickElement(page, "verificationSubmit");
+    return source;
+  }
+
+  /**
+   * Opens the collection form and checks UPS did not send us back to the
+   * login page.
+   */
+  private async hasValidLogin(page: Page): Promise<boolean> {
+    try {
+      await this.goto(page, this.urls.form, 60000);
+      await page.waitForTimeout(2000);
+    } catch {
+      return false;
+    }
+    const url = new URL(page.url());
+    if (url.pathname === new URL(this.urls.login).pathname || url.hostname === "id.ups.com" || url.pathname.startsWith("/lasso/")) {
+      return false;
+    }
+    return !(await page.$(this.selectors.steps.loginUsername.join(", ")));
+  }
+
+  // ============================================
+  // COLLECTION OPERATIONS
+  // ============================================
+
+  /**
+   * Fills the UPS collection booking form.
+   *
+   * Logs in if needed, navigates to the collection form, and fills
+   * all fields from the resolved form state.
+   *
+   * @param formState - Resolved collection details and profile address
+   * @returns Result with screenshot path and form state
+   */
+  async fillForm(formState: FormState): Promise<any> {
+    const page = await this.ensureBrowser();
+
+    // Login first
+    await this.login();
+
+    let filled: { screenshot: string; verification: FieldCheck[] };
+    try {
+      // A form that did not load or take its values is opened and filled again
+      filled = await this.retrying("fill", () => this.fillFormPage(page, formState));
+    } catch (error) {
+      return toErrorResult(error);
+    }
+
+    this.advance("form-filled", { formState, scheduleClickedAt: undefined });
+
+    return {
+      success: true,
+      screenshot: filled.screenshot,
+      formState,
+      verification: filled.verification,
+      loginReused: this.loginReused,
+      loginChallenge: this.loginChallenge,
+      message: "Form filled successfully. Please review the screenshot before calling submit.",
+    };
+  }
+
+  /**
+   * Opens the collection form, fills it and reads it back.
+   *
+   * @returns The preview screenshot and the read-back verification
+   * @throws UPSError FORM_FIELD_NOT_FOUND or DATE_UNAVAILABLE, with the screenshot and verification
+   */
+  private async fillFormPage(page: Page, formState: FormState): Promise<{ screenshot: string; verification: FieldCheck[] }> {
+    // Navigate to collection form
+    await this.goto(page, this.urls.form, 60000);
+
+    // Handle any cookie banners on form page
+    await this.dismissCookieBanners(page);
+
+    // Wait for form to load
+    await page.waitForTimeout(3000);
+
+    const { date, earliestTime, packages, weight, specialInstructions } = formState;
+
+    // Take initial screenshot to see what we're working with
+    const initialScreenshot = `${this.artifactDir}/ups-form-initial-${Date.now()}.png`;
+    await page.screenshot({ path: initialScreenshot, fullPage: true });
+
+    // The UPS form is complex - we need to identify elements by their labels/structure
+    // This is a simplified approach - real implementation may need adjustments based on actual form
+
+    // Fields we filled, kept for the read-back verification below
+    const filled: FilledField[] = [];
+    let formattedDate = "";
+
+    try {
+      // IMPORTANT: Must select "A different collection address" radio button
+      // The UPS form defaults to the saved account address, not the profile's site
+      let radioClicked = false;
+      const radio = await this.findElement(page, "differentAddress");
+      if (radio) {
+        try {
+          await radio.click({ force: true });
+          radioClicked = true;
+          await page.waitForTimeout(1000); // Wait for form fields to appear
+        } catch {
+          // Fall back to the label search below
+        }
+      }
+
+      // If selectors failed, try clicking by label text via JavaScript
+      if (!radioClicked) {
+        await page.evaluate(() => {
+          // Find all radio buttons and their labels
+          const radios = document.querySelectorAll('input[type="radio"]');
+          radios.forEach(radio => {
+            const label = document.querySelector(`label[for="${radio.id}"]`);
+            const labelText = label?.textContent?.toLowerCase() || '';
+            if (labelText.includes('different') && labelText.includes('collection')) {
+              (radio as HTMLInputElement).click();
+            }
+          });
+        });
+        await page.waitForTimeout(1000);
+      }
+
+      // Fill company name
+      filled.push({
+        field: "company",
+        required: true,
+        expected: formState.company,
+        handle: await this.fillField(page, "company", formState.company),
+      });
+
+      // Fill address
+      filled.push({
+        field: "address",
+        required: true,
+        expected: formState.address,
+        handle: await this.fillField(page, "address", formState.address),
+      });
+
+      // Fill city
+      filled.push({
+        field: "city",
+        required: true,
+        expected: formState.city,
+        handle: await this.fillField(page, "city", formState.city),
+      });
+
+      // Fill postal code
+      filled.push({
+        field: "postalCode",
+        required: true,
+        expected: formState.postalCode,
+        handle: await this.fillField(page, "postalCode", formState.postalCode),
+      });
+
+      // Fill telephone
+      filled.push({
+        field: "telephone",
+        required: true,
+        expected: formState.telephone,
+        handle: await this.fillField(page, "telephone", formState.telephone),
+      });
+
+      // Fill package count
+      filled.push({
+        field: "packages",
+        required: true,
+        expected: String(packages),
+        handle: await this.fillField(page, "packages", String(packages)),
+      });
+
+      // Fill weight
+      filled.push({
+        field: "weight",
+        required: true,
+        expected: String(weight),
+        handle: await this.fillField(page, "weight", String(weight)),
+      });
+
+      // Fill special instructions
+      if (specialInstructions) {
+        filled.push({
+          field: "specialInstructions",
+          required: true,
+          expected: specialInstructions,
+          handle: await this.fillField(page, "specialInstructions", specialInstructions),
+        });
+      }
+
+      // Select collection location
+      filled.push({
+        field: "collectFrom",
+        required: false,
+        expected: formState.collectFrom,
+        handle: await this.selectOption(page, "collectFrom", formState.collectFrom),
+      });
+
+      // Select the account the collection is billed to
+      filled.push({
+        field: "paymentAccount",
+        required: false,
+        expected: formState.paymentAccount,
+        handle: await this.selectOption(page, "paymentAccount", formState.paymentAccount),
+      });
+
+      // Fill notification email
+      filled.push({
+        field: "email",
+        required: false,
+        expected: formState.email,
+        handle: await this.fillField(page, "email", formState.email),
+      });
+
+      // Select collection date from dropdown
+      // The date is in format YYYY-MM-DD, but dropdown shows "Friday, January 16, 2026"
+      // We need to match by the date portion
+      const dateObj = new Date(date + 'T12:00:00');
+      const dateOptions: Intl.DateTimeFormatOptions = {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      };
+      formattedDate = dateObj.toLocaleDateString('en-GB', dateOptions);
+
+      // Try to select date from dropdown
+      await page.evaluate((searchDate) => {
+        const selects = document.querySelectorAll('select');
+        selects.forEach(select => {
+          const options = Array.from(select.options);
+          const matchingOption = options.find(opt =>
+            opt.text.toLowerCase().includes(searchDate.toLowerCase()) ||
+            opt.text.includes(searchDate.split(', ').pop() || '') // Try matching by date portion
+          );
+          if (matchingOption) {
+            select.value = matchingOption.value;
+            select.dispatchEvent(new Event('change', { bubbles: true }));
+          }
+        });
+      }, formattedDate);
+
+      // Also try with the day number
+      const dayNum = dateObj.getDate();
+      const monthName = dateObj.toLocaleDateString('en-GB', { month: 'long' });
+      await page.evaluate(({ day, month }: { day: number; month: string }) => {
+        const selects = document.querySelectorAll('select');
+        selects.forEach(select => {
+          const options = Array.from(select.options);
+          const matchingOption = options.find(opt =>
+            opt.text.includes(String(day)) && opt.text.toLowerCase().includes(month.toLowerCase())
+          );
+          if (matchingOption && !select.value.includes('January')) {
+            select.value = matchingOption.value;
+            select.dispatchEvent(new Event('change', { bubbles: true }));
+          }
+        });
+      }, { day: dayNum, month: monthName });
+
+      await page.waitForTimeout(500);
+
+      // Select time dropdowns if present
+      // Earliest time
+      if (earliestTime) {
+        const [hour] = earliestTime.split(':');
+        await page.evaluate((h: string) => {
+          // Find hour selects
+          const selects = document.querySelectorAll('select');
+          let foundEarliest = false;
+          selects.forEach(select => {
+            const label = select.closest('div')?.querySelector('label')?.textContent?.toLowerCase() || '';
+            if (label.includes('earliest') && !foundEarliest) {
+              // This might be the hour select
+              const hourOpt = Array.from(select.options).find(opt => opt.text.trim() === h || opt.value === h);
+              if (hourOpt) {
+                select.value = hourOpt.value;
+                select.dispatchEvent(new Event('change', { bubbles: true }));
+                foundEarliest = true;
+              }
+            }
+          });
+        }, hour);
+      }
+
+    } catch (formError: any) {
+      // Take screenshot of form error
+      const errorScreenshot = `${this.artifactDir}/ups-form-error-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+      throw new UPSError(errorCodeOf(formError, "FORM_FIELD_NOT_FOUND"), `Form fill error: ${formError.message}`, {
+        ...(formError instanceof UPSError ? formError.details : {}),
+        screenshot: errorScreenshot,
+      });
+    }
+
+    // Take preview screenshot
+    const previewScreenshot = `${this.artifactDir}/ups-form-preview-${Date.now()}.png`;
+    await page.screenshot({ path: previewScreenshot, fullPage: true });
+
+    // Read back what actually ended up in the form
+    const verification = await this.verifyForm(page, filled, formattedDate, earliestTime);
+    const failed = verification.filter(check => check.required && check.status !== "matched");
+
+    if (failed.length > 0) {
+      // A date missing from the dropdown means UPS does not offer it
+      const code = failed.every(check => check.field === "date") ? "DATE_UNAVAILABLE" : "FORM_FIELD_NOT_FOUND";
+      throw new UPSError(code, `Form verification failed: ${failed.map(check => `${check.field} ${check.status}`).join(", ")}`, {
+        screenshot: previewScreenshot,
+        formState,
+        verification,
+      });
+    }
+
+    return { screenshot: previewScreenshot, verification };
+  }
+
+  /**
+   * Compares the live DOM values with what fillForm() intended to enter.
+   *
+   * Text fields must match exactly (ignoring case and whitespace); selects
+   * match when the selected option's label contains the intended value.
+   */
+  private async verifyForm(page: Page, filled: FilledField[], formattedDate: string, earliestTime: string): Promise<FieldCheck[]> {
+    const normalize = (value: string) => value.replace(/\s+/g, " ").trim().toLowerCase();
+    const checks: FieldCheck[] = [];
+
+    for (const { field, required, expected, handle } of filled) {
+      let actual: string | null = null;
+      if (handle) {
+        try {
+          actual = await handle.evaluate((el, want) => {
+            if (el instanceof HTMLSelectElement) return el.options[el.selectedIndex]?.text ?? "";
+            if (el instanceof HTMLInputElement && el.type === "radio") return el.checked ? want : "";
+            return (el as HTMLInputElement | HTMLTextAreaElement).value;
+          }, expected);
+        } catch {
+          // Element detached (e.g. re-rendered) - treat as missing
+        }
+      }
+
+      let status: FieldCheck["status"] = "missing";
+      if (actual !== null) {
+        const isSelect = await handle!.evaluate(el => el instanceof HTMLSelectElement).catch(() => false);
+        const matches = isSelect
+          ? normalize(actual).includes(normalize(expected))
+          : normalize(actual) === normalize(expected);
+        status = matches ? "matched" : "mismatched";
+      }
+      checks.push({ field, required, expected, actual, status });
+    }
+
+    // The date and time selects are set by scanning every <select>, so read them back the same way
+    const datePortion = formattedDate.split(', ').pop() || formattedDate;
+    const [hour] = earliestTime.split(':');
+    const selects = await page.evaluate(({ date, h }: { date: string; h: string }) => {
+      const all = Array.from(document.querySelectorAll('select'));
+      const dateSelect = all.find(select => Array.from(select.options).some(opt => opt.text.includes(date)));
+      const earliestSelect = all.find(select =>
+        (select.closest('div')?.querySelector('label')?.textContent?.toLowerCase() || '').includes('earliest')
+      );
+      return {
+        date: dateSelect ? dateSelect.options[dateSelect.selectedIndex]?.text ?? '' : null,
+        earliest: earliestSelect ? earliestSelect.options[earliestSelect.selectedIndex]?.text.trim() ?? '' : null,
+        hourAvailable: earliestSelect ? Array.from(earliestSelect.options).some(opt => opt.text.trim() === h || opt.value === h) : false,
+      };
+    }, { date: datePortion, h: hour });
+
+    checks.push({
+      field: "date",
+      required: true,
+      expected: formattedDate,
+      actual: selects.date,
+      status: selects.date === null ? "missing" : selects.date.includes(datePortion) ? "matched" : "mismatched",
+    });
+    checks.push({
+      field: "earliestTime",
+      required: false,
+      expected: hour,
+      actual: selects.earliest,
+      status: selects.earliest === null ? "missing" : selects.earliest === hour ? "matched" : "mismatched",
+    });
+
+    return checks;
+  }
+
+  /**
+   * Fills the first field matching one of the field's label variants and
+   * returns it, or null if none was found. Records which variant matched.
+   */
+  private async fillField(page: Page, name: FieldName, value: string): Promise<ElementHandle | null> {
+    const labelVariants = this.selectors.fields[name];
+    for (const [index, label] of labelVariants.entries()) {
+      const field = await this.findFieldByLabel(page, label);
+      if (field) {
+        try {
+          await field.fill(value);
+          this.health.record(`field.${name}`, labelVariants, index);
+          return field;
+        } catch {
+          // Continue to next variant
+        }
+      }
+    }
+    // Field not found - not throwing to allow partial form fills (verifyForm reports it)
+    this.health.record(`field.${name}`, labelVariants, -1);
+    return null;
+  }
+
+  /** Finds an input or textarea by aria-label, placeholder, <label> text or name attribute. */
+  private async findFieldByLabel(page: Page, label: string): Promise<ElementHandle | null> {
+    try {
+      // Try by aria-label
+      let field = await page.$(`input[aria-label*="${label}" i], textarea[aria-label*="${label}" i]`);
+      if (field) {
+        return field;
+      }
+
+      // Try by placeholder
+      field = await page.$(`input[placeholder*="${label}" i], textarea[placeholder*="${label}" i]`);
+      if (field) {
+        return field;
+      }
+
+      // Try by label text
+      const labelEl = await page.$(`label:has-text("${label}")`);
+      if (labelEl) {
+        const forAttr = await labelEl.getAttribute("for");
+        if (forAttr) {
+          field = await page.$(`#${forAttr}`);
+          if (field) {
+            return field;
+          }
+        }
+        // Try sibling input
+        field = await labelEl.$("xpath=following-sibling::input | following-sibling::textarea | ../input | ../textarea");
+        if (field) {
+          return field;
+        }
+      }
+
+      // Try by name attribute
+      return await page.$(`input[name*="${label.toLowerCase().replace(/\s+/g, '')}" i], textarea[name*="${label.toLowerCase().replace(/\s+/g, '')}" i]`);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Selects an option (dropdown or radio) by one of the field's label variants
+   * and returns the element, or null if none was found. Records which variant matched.
+   */
+  private async selectOption(page: Page, name: FieldName, value: string): Promise<ElementHandle | null> {
+    const labelVariants = this.selectors.fields[name];
+    for (const [index, label] of labelVariants.entries()) {
+      try {
+        // Try select dropdown
+        const select = await page.$(`select[aria-label*="${label}" i], select[name*="${label.toLowerCase().replace(/\s+/g, '')}" i]`);
+        if (select) {
+          await select.selectOption({ label: value });
+          this.health.record(`field.${name}`, labelVariants, index);
+          return select;
+        }
+
+        // Try radio buttons
+        const radio = await page.$(`input[type="radio"][value*="${value}" i], label:has-text("${value}") input[type="radio"]`);
+        if (radio) {
+          await radio.click();
+          this.health.record(`field.${name}`, labelVariants, index);
+          return radio;
+        }
+      } catch {
+        // Continue to next variant
+      }
+    }
+    this.health.record(`field.${name}`, labelVariants, -1);
+    return null;
+  }
+
+  /**
+   * Describes the steps fillForm() or book() would run, without touching the browser.
+   *
+   * @param formState - Resolved collection details
+   * @param operation - "fill-form" or "book"
+   * @param launch - Command-line launch settings
+   * @returns Human-readable steps in order
+   */
+  plan(formState: FormState, operation: PlanOperation, launch?: LaunchOverrides): string[] {
+    const profile = resolveLaunchProfile(this.config, launch);
+    const steps = [
+      `Reconnect to the saved browser session, or launch Chromium with the stealth plugin ` +
+        `(launch profile ${profile.name}: ${profile.headless ? "headless" : "headed"}, ` +
+        `${profile.viewport.width}x${profile.viewport.height})`,
+      `Reuse the saved UPS login if it is still valid, otherwise log in at ${this.urls.login} as ${this.config.ups.username}`,
+      "Answer a verification-code challenge from ups.verification if UPS shows one",
+      `Open the collection form at ${this.urls.form} and dismiss cookie banners`,
+      'Select "A different collection address"',
+      `Fill company: ${formState.company}`,
+      `Fill address: ${formState.address}`,
+      `Fill city: ${formState.city}`,
+      `Fill postal code: ${formState.postalCode}`,
+      `Fill telephone: ${formState.telephone}`,
+      `Fill packages: ${formState.packages}`,
+      `Fill weight: ${formState.weight} kg`,
+      ...(formState.specialInstructions ? [`Fill special instructions: ${formState.specialInstructions}`] : []),
+      `Select collection location: ${formState.collectFrom}`,
+      `Select payment account: ${formState.paymentAccount}`,
+      `Fill notification email: ${formState.email}`,
+      `Select collection date: ${formState.date}`,
+      `Select earliest collection hour: ${formState.earliestTime.split(":")[0]}`,
+      "Read back every field and fail if a required field did not stick",
+      "Screenshot the filled form",
+    ];
+
+    if (operation === "book") {
+      steps.push(
+        "Click Next to open the review page and screenshot it",
+        "Click Schedule Pickup",
+        "Screenshot the confirmation page and parse the confirmation number",
+        "Close the browser"
+      );
+    } else {
+      steps.push("Stop for review; run submit to book");
+    }
+    return steps;
+  }
+
+  // ============================================
+  // SCREENSHOT OPERATIONS
+  // ============================================
+
+  /**
+   * Takes a screenshot of the current browser state.
+   *
+   * @param options - Screenshot options
+   * @param options.filename - Custom filename (default: timestamped)
+   * @param options.fullPage - Capture full scrollable page (default: false)
+   * @returns Result with screenshot path
+   */
+  async takeScreenshot(options?: ScreenshotOptions): Promise<any> {
+    const page = await this.ensureBrowser();
+
+    const filename = options?.filename || `ups-${Date.now()}.png`;
+    const screenshotPath = `${this.artifactDir}/${filename}`;
+
+    await page.screenshot({
+      path: screenshotPath,
+      fullPage: options?.fullPage ?? false,
+    });
+
+    return {
+      success: true,
+      screenshot: screenshotPath,
+    };
+  }
+
+  /**
+   * Submits the filled collection form.
+   *
+   * Must be called after fillForm(). Navigates through review page
+   * and submits the booking.
+   *
+   * @returns Result with confirmation details and screenshots
+   */
+  async submit(): Promise<any> {
+    const page = await this.ensureBrowser();
+    let scheduled = false;
+
+    try {
+      // Click Next/Submit/Continue button to go to review page
+      await this.retrying("review", async (attempt) => {
+        // A retry may find the earlier click did land
+        if (attempt > 1 && (await this.findElement(page, "scheduleButton", { visible: true, optional: true }))) {
+          return;
+        }
+        const nextButton = await this.findElement(page, "formNext", { visible: true });
+        if (nextButton) {
+          await nextButton.click();
+          await page.waitForLoadState("networkidle");
+          await page.waitForTimeout(2000);
+        }
+      });
+
+      // Take screenshot of review page
+      const reviewScreenshot = `${this.artifactDir}/ups-review-${Date.now()}.png`;
+      await page.screenshot({ path: reviewScreenshot, fullPage: true });
+      this.advance("reviewed");
+
+      // Click the final submit button on review page
+      await this.clickScheduleOnce(page, reviewScreenshot);
+      scheduled = true;
+      await page.waitForLoadState("networkidle");
+      await page.waitForTimeout(3000);
+
+      // Take confirmation screenshot
+      const confirmationScreenshot = `${this.artifactDir}/ups-confirmation-${Date.now()}.png`;
+      await page.screenshot({ path: confirmationScreenshot, fullPage: true });
+
+      // Try to extract confirmation details from page
+      const confirmation = await this.extractConfirmation(page);
+
+      if (!confirmation.confirmationNumber) {
+        return errorResult("CONFIRMATION_NOT_PARSED", "Collection was submitted but no confirmation number was found on the page.", {
+          screenshot: confirmationScreenshot,
+          reviewScreenshot,
+          confirmation,
+        });
+      }
+
+      return {
+        success: true,
+        screenshot: confirmationScreenshot,
+        reviewScreenshot,
+        confirmation,
+        message: "Collection submitted successfully.",
+      };
+    } catch (error: any) {
+      const errorScreenshot = `${this.artifactDir}/ups-submit-error-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+
+      // Once Schedule is clicked the collection may be booked, so it must not be submitted again
+      if (scheduled) {
+        return errorResult("CONFIRMATION_NOT_PARSED", `Schedule was clicked but the confirmation page failed: ${error.message}`, {
+          screenshot: errorScreenshot,
+          scheduleClicked: true,
+        });
+      }
+      return toErrorResult(error, "UNKNOWN", "Submit failed", { screenshot: errorScreenshot });
+    }
+  }
+
+  private async extractConfirmation(page: Page): Promise<Record<string, any>> {
+    try {
+      return await page.evaluate(() => {
+        const text = document.body.innerText;
+
+        // Try to find confirmation number
+        const confirmationPatterns = [
+          /Confirmation[:\s#]*([A-Z0-9]+)/i,
+          /Request[:\s#]*([A-Z0-9]+)/i,
+          /Reference[:\s#]*([A-Z0-9]+)/i,
+          /Pickup[:\s#]*([A-Z0-9]+)/i,
+        ];
+
+        let confirmationNumber = null;
+        for (const pattern of confirmationPatterns) {
+          const match = text.match(pattern);
+          if (match) {
+            confirmationNumber = match[1];
+            break;
+          }
+        }
+
+        // Try to find total charges
+        const chargesMatch = text.match(/Total[^:]*:\s*([\d.,]+\s*(?:GBP|£))/i);
+        const totalCharges = chargesMatch?.[1] || null;
+
+        // Try to find collection date
+        const dateMatch = text.match(/(?:Collection|Pickup)\s*Date[:\s]*([^,\n]+)/i);
+        const collectionDate = dateMatch?.[1]?.trim() || null;
+
+        return {
+          confirmationNumber,
+          totalCharges,
+          collectionDate,
+          pageText: text.substring(0, 3000),
+        };
+      });
+    } catch {
+      return { pageText: "Unable to extract confirmation details" };
+    }
+  }
+
+  // ============================================
+  // SESSION MANAGEMENT
+  // ============================================
+
+  /**
+   * Closes browser session and clears saved state.
+   *
+   * Call this to start fresh or after completing a booking.
+   *
+   * @returns Success/error result
+   */
+  async reset(): Promise<any> {
+    try {
+      await this.closeBrowser();
+
+      clearSession();
+
+      return {
+        success: true,
+        message: "Browser session closed and cleared.",
+      };
+    } catch (error: any) {
+      return toErrorResult(error, "UNKNOWN", "Reset failed");
+    }
+  }
+
+  /**
+   * Books a collection in one step (fill + submit).
+   *
+   * Combines fillForm() and submit() into a single operation,
+   * keeping the browser session alive between steps.
+   *
+   * @param formState - Resolved collection details (same as fillForm)
+   * @returns Result with fill/review/confirmation screenshots and booking details
+   */
+  async book(formState: FormState): Promise<any> {
+    // First, fill the form
+    const fillResult = await this.fillForm(formState);
+
+    if (fillResult.error) {
+      return fillResult;
+    }
+
+    // Small delay to let any JavaScript settle
+    if (this.page) {
+      await this.page.waitForTimeout(2000);
+    }
+
+    // Now submit - but we need to use the already-open page
+    // rather than calling ensureBrowser() which might launch a new browser
+    if (!this.page) {
+      return errorResult("BROWSER_CRASHED", "Browser page not available after fill");
+    }
+
+    const page = this.page;
+    let scheduled = false;
+
+    try {
+      await this.retrying("review", async (attempt) => {
+        // A retry may find the earlier click did land
+        if (attempt > 1 && (await this.findElement(page, "scheduleButton", { visible: true, optional: true }))) {
+          return;
+        }
+
+        // Dismiss any cookie banners before attempting to click buttons
+        await this.dismissCookieBanners(page);
+
+        // Scroll to bottom of page to make sure Next button is visible
+        await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+        await page.waitForTimeout(1000);
+
+        // Click Next button - look for the visible one specifically
+        // UPS form has a blue "Next" button at the bottom
+        let clicked = await this.clickElement(page, "formNext");
+
+        if (!clicked) {
+          // Try clicking via JavaScript as fallback
+          clicked = await page.evaluate(() => {
+            const buttons = Array.from(document.querySelectorAll('button'));
+            const nextButton = buttons.find(b => b.textContent?.toLowerCase().includes('next') && b.offsetParent !== null);
+            if (nextButton) (nextButton as HTMLElement).click();
+            return !!nextButton;
+          });
+        }
+        if (!clicked) {
+          throw new UPSError("SUBMIT_BUTTON_NOT_FOUND", "Could not find the Next button on the collection form");
+        }
+
+        await page.waitForLoadState("domcontentloaded");
+        await page.waitForTimeout(3000);
+
+        // Dismiss any cookie banners on review page
+        await this.dismissCookieBanners(page);
+      });
+
+      // Take screenshot of review page
+      const reviewScreenshot = `${this.artifactDir}/ups-review-${Date.now()}.png`;
+      await page.screenshot({ path: reviewScreenshot, fullPage: true });
+      this.advance("reviewed");
+
+      // Click the final submit button on review page
+      await this.clickScheduleOnce(page, reviewScreenshot);
+      scheduled = true;
+
+      await page.waitForLoadState("domcontentloaded");
+      await page.waitForTimeout(5000);
+
+      // Take confirmation screenshot
+      const confirmationScreenshot = `${this.artifactDir}/ups-confirmation-${Date.now()}.png`;
+      await page.screenshot({ path: confirmationScreenshot, fullPage: true });
+
+      // Try to extract confirmation details from page
+      const confirmation = await this.extractConfirmation(page);
+
+      // Close browser after the booking; the session keeps its state for status
+      await this.closeBrowser();
+
+      if (!confirmation.confirmationNumber) {
+        return errorResult("CONFIRMATION_NOT_PARSED", "Collection was submitted but no confirmation number was found on the page.", {
+          fillScreenshot: fillResult.screenshot,
+          reviewScreenshot,
+          confirmationScreenshot,
+          formState: fillResult.formState,
+          verification: fillResult.verification,
+          confirmation,
+        });
+      }
+
+      return {
+        success: true,
+        fillScreenshot: fillResult.screenshot,
+        reviewScreenshot,
+        confirmationScreenshot,
+        formState: fillResult.formState,
+        verification: fillResult.verification,
+        loginReused: fillResult.loginReused,
+        loginChallenge: fillResult.loginChallenge,
+        confirmation,
+        message: "Collection booked successfully.",
+      };
+    } catch (error: any) {
+      const errorScreenshot = `${this.artifactDir}/ups-book-error-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+
+      // Once Schedule is clicked the collection may be booked, so it must not be booked again
+      if (scheduled) {
+        return errorResult("CONFIRMATION_NOT_PARSED", `Schedule was clicked but the confirmation page failed: ${error.message}`, {
+          fillScreenshot: fillResult.screenshot,
+          errorScreenshot,
+          scheduleClicked: true,
+        });
+      }
+      return toErrorResult(error, "UNKNOWN", "Booking failed during submit", {
+        fillScreenshot: fillResult.screenshot,
+        errorScreenshot,
+      });
+    }
+  }
+
+  // ============================================
+  // CANCELLATION
+  // ============================================
+
+  /**
+   * Cancels a scheduled collection by confirmation number.
+   *
+   * Finds the pickup on the UPS pickup history page. Without `confirm`
+   * it returns a preview; with `confirm` it performs the cancellation.
+   *
+   * @param confirmationNumber - Confirmation number of the collection to cancel
+   * @param confirm - Actually cancel rather than preview
+   * @returns Result with pickup details, screenshot and cancellation outcome
+   */
+  async cancel(confirmationNumber: string, confirm: boolean): Promise<any> {
+    const page = await this.ensureBrowser();
+    await this.login();
+
+    try {
+      const pickup = await this.openPickupDetails(page, confirmationNumber);
+      if (!pickup) {
+        const errorScreenshot = `${this.artifactDir}/ups-cancel-not-found-${Date.now()}.png`;
+        await page.screenshot({ path: errorScreenshot, fullPage: true });
+        return errorResult("BOOKING_NOT_FOUND", `No scheduled collection found with confirmation number ${confirmationNumber}.`, {
+          screenshot: errorScreenshot,
+        });
+      }
+
+      if (!confirm) {
+        const previewScreenshot = `${this.artifactDir}/ups-cancel-preview-${Date.now()}.png`;
+        await page.screenshot({ path: previewScreenshot, fullPage: true });
+
+        return {
+          success: true,
+          stage: "preview",
+          confirmationNumber,
+          pickup,
+          screenshot: previewScreenshot,
+          message: "Collection found. Please review before calling cancel again with --confirm.",
+        };
+      }
+
+      const clicked = await this.clickElement(page, "cancelButton");
+
+      if (!clicked) {
+        throw new UPSError("CANCEL_FAILED", "Could not find the cancel button for this collection");
+      }
+
+      await page.waitForTimeout(2000);
+
+      // UPS asks for confirmation in a modal before cancelling
+      await this.clickElement(page, "cancelConfirm", { scroll: false, optional: true });
+
+      await page.waitForLoadState("domcontentloaded");
+      await page.waitForTimeout(3000);
+
+      const resultScreenshot = `${this.artifactDir}/ups-cancel-result-${Date.now()}.png`;
+      await page.screenshot({ path: resultScreenshot, fullPage: true });
+
+      const pageText = await page.evaluate(() => document.body.innerText);
+      const cancelled = /(has been|was|successfully)\s+cancell?ed|cancell?ation\s+(confirmed|complete)/i.test(pageText);
+
+      if (!cancelled) {
+        return errorResult("CANCEL_FAILED", "Cancel was clicked but UPS did not confirm the cancellation. Check the screenshot.", {
+          confirmationNumber,
+          screenshot: resultScreenshot,
+        });
+      }
+
+      return {
+        success: true,
+        stage: "cancelled",
+        confirmationNumber,
+        pickup,
+        screenshot: resultScreenshot,
+        message: `Collection ${confirmationNumber} cancelled.`,
+      };
+    } catch (error: any) {
+      const errorScreenshot = `${this.artifactDir}/ups-cancel-error-${Date.now()}.png`;
+      await page.screenshot({ path: errorScreenshot, fullPage: true });
+
+      return toErrorResult(error, "CANCEL_FAILED", "Cancel failed", { confirmationNumber, screenshot: errorScreenshot });
+    }
+  }
+
+  /**
+   * Finds a pickup on the UPS pickup history page and opens its details.
+   *
+   * @returns Summary text of the matching pickup, or null if not listed
+   */
+  private async openPickupDetails(page: Page, confirmationNumber: string): Promise<{ summary: string } | null> {
+    await this.goto(page, this.urls.history, 60000);
+    await this.dismissCookieBanners(page);
+    await page.waitForTimeout(3000);
+
+    const match = await page.$(`text=${confirmationNumber}`);
+    if (!match) {
+      return null;
+    }
+
+    // Open the details view when the number is a link
+    const link = await page.$(`a:has-text("${confirmationNumber}")`);
+    if (link) {
+      await link.click({ force: true });
+      await page.waitForLoadState("domcontentloaded");
+      await page.waitForTimeout(2000);
+      await this.dismissCookieBanners(page);
+    }
+
+    // Use the smallest row/card containing the number as the summary
+    const summary = await page.evaluate((id: string) => {
+      const candidates = Array.from(document.querySelectorAll('tr, li, section, [class*="card"], [class*="detail"]'))
+        .map(el => (el as HTMLElement).innerText || '')
+        .filter(text => text.includes(id))
+        .sort((a, b) => a.length - b.length);
+      return (candidates[0] || document.body.innerText).trim().substring(0, 1000);
+    }, confirmationNumber);
+
+    return { summary };
+  }
+}
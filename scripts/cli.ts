@@ -7,24 +7,82 @@
 
 import { z, createCommand, runCli, cliTypes } from "@local/cli-utils";
 import { UPSClient } from "./ups-client.js";
+import { exitCodeOf, toErrorResult } from "./errors.js";
+import type { LaunchOverrides } from "./types.js";
+
+/**
+ * Waits for a command result and sets the process exit code from its error code.
+ * Thrown errors become error results, so every failure prints the same JSON shape.
+ */
+async function respond(pending: Promise<any>): Promise<any> {
+  let result: any;
+  try {
+    result = await pending;
+  } catch (error) {
+    result = toErrorResult(error);
+  }
+  process.exitCode = exitCodeOf(result);
+  return result;
+}
+
+// Browser launch options, shared by every command that may start a browser
+const launchOptionsSchema = z.object({
+  launchProfile: z.string().optional().describe("Launch profile from launchProfiles in config.json"),
+  headless: z.boolean().optional().describe("Run Chromium headless (for servers and CI)"),
+  headed: z.boolean().optional().describe("Show the browser window"),
+  viewport: z.string().optional().describe("Viewport as WIDTHxHEIGHT (default: 1280x800)"),
+  locale: z.string().optional().describe("Browser locale, e.g. en-GB"),
+  timezone: z.string().optional().describe("Browser timezone, e.g. Europe/London"),
+  executablePath: z.string().optional().describe("Chromium binary to launch instead of Playwright's"),
+  browserArgs: z.string().optional().describe("Extra Chromium arguments, comma-separated"),
+});
+
+// For commands that hold the session lock
+const waitOptionSchema = z.object({
+  wait: cliTypes.int(0, 3600).optional().describe("Seconds to wait if another command is using the session (default: fail at once)"),
+});
+
+// For commands that may log in
+const verificationOptionSchema = z.object({
+  verificationCode: z.string().optional().describe("Code UPS sent for the \"verify it's you\" step (default: from ups.verification)"),
+});
+
+/** Builds launch overrides from the launch flags. */
+function launchOverrides(args: Record<string, unknown>): LaunchOverrides {
+  return {
+    profile: args.launchProfile as string | undefined,
+    headless: args.headless ? true : args.headed ? false : undefined,
+    viewport: args.viewport as string | undefined,
+    locale: args.locale as string | undefined,
+    timezone: args.timezone as string | undefined,
+    executablePath: args.executablePath as string | undefined,
+    args: (args.browserArgs as string | undefined)?.split(",").map((arg) => arg.trim()).filter(Boolean),
+  };
+}
 
 // Common form options schema
 const formOptionsSchema = z.object({
-  date: z.string().optional().describe("Collection date (YYYY-MM-DD, default: smart selection based on time)"),
+  profile: z.string().optional().describe("Collection profile from config.json (default: defaultProfile)"),
+  date: z.string().optional().describe("Collection date (YYYY-MM-DD, default: next valid date, see next-dates)"),
   packages: cliTypes.int(1, 99).optional().describe("Number of packages (default: 1)"),
   weight: cliTypes.int(1, 1000).optional().describe("Weight in kg (default: 10)"),
   earliestTime: z.string().optional().describe("Earliest collection time HH:MM (default: 12:00)"),
   latestTime: z.string().optional().describe("Latest collection time HH:MM (default: 18:00)"),
-  doorCode: z.string().optional().describe("Door code without dashes (required)"),
+  doorCode: z.string().optional().describe("Door code, dashes allowed (default: looked up from doorCode in config.json)"),
   specialInstructions: z.string().optional().describe("Custom special instructions (overrides door code)"),
-});
+  manifest: z.string().optional().describe("Parcel list (JSON or CSV) with each parcel's weight and dimensions; sets packages and weight"),
+  allowDuplicate: z.boolean().optional().describe("Book even if a collection already exists for this date and address"),
+  dryRun: z.boolean().optional().describe("Resolve and check every value, then print the plan without launching a browser"),
+  trace: z.boolean().optional().describe("Record a Playwright trace and HAR into a per-run artifact folder"),
+}).merge(launchOptionsSchema).merge(waitOptionSchema).merge(verificationOptionSchema);
 
 // Define commands with Zod schemas
 const commands = {
   "fill-form": createCommand(
     formOptionsSchema,
     async (args, client: UPSClient) => {
-      return client.fillForm({
+      return respond(client.fillForm({
+        profile: args.profile as string | undefined,
         date: args.date as string | undefined,
         packages: args.packages as number | undefined,
         weight: args.weight as number | undefined,
@@ -32,15 +90,25 @@ const commands = {
         latestTime: (args.latestTime as string | undefined) || "18:00",
         doorCode: args.doorCode as string | undefined,
         specialInstructions: args.specialInstructions as string | undefined,
-      });
+        manifest: args.manifest as string | undefined,
+        allowDuplicate: args.allowDuplicate as boolean | undefined,
+        dryRun: args.dryRun as boolean | undefined,
+        trace: args.trace as boolean | undefined,
+        launch: launchOverrides(args),
+        wait: args.wait as number | undefined,
+        verificationCode: args.verificationCode as string | undefined,
+      }));
     },
     "Login to UPS and fill collection form (does not submit)"
   ),
 
   "book": createCommand(
-    formOptionsSchema,
+    formOptionsSchema.extend({
+      ics: z.string().optional().describe("Also write an .ics calendar event for the booked collection to this file"),
+    }),
     async (args, client: UPSClient) => {
-      return client.book({
+      return respond(client.book({
+        profile: args.profile as string | undefined,
         date: args.date as string | undefined,
         packages: args.packages as number | undefined,
         weight: args.weight as number | undefined,
@@ -48,7 +116,15 @@ const commands = {
         latestTime: (args.latestTime as string | undefined) || "18:00",
         doorCode: args.doorCode as string | undefined,
         specialInstructions: args.specialInstructions as string | undefined,
-      });
+        manifest: args.manifest as string | undefined,
+        allowDuplicate: args.allowDuplicate as boolean | undefined,
+        dryRun: args.dryRun as boolean | undefined,
+        trace: args.trace as boolean | undefined,
+        launch: launchOverrides(args),
+        wait: args.wait as number | undefined,
+        verificationCode: args.verificationCode as string | undefined,
+        ics: args.ics as string | undefined,
+      }));
     },
     "Fill form AND submit in one operation (keeps browser alive)"
   ),
@@ -60,22 +136,151 @@ const commands = {
     }),
     async (args, client: UPSClient) => {
       const { filename, fullPage } = args as { filename?: string; fullPage?: boolean };
-      return client.takeScreenshot({ filename, fullPage });
+      return respond(client.takeScreenshot({ filename, fullPage }));
     },
     "Take screenshot of current page"
   ),
 
   "submit": createCommand(
-    z.object({}),
-    async (_args, client: UPSClient) => client.submit(),
+    z.object({
+      trace: z.boolean().optional().describe("Record a Playwright trace and HAR (default: on if fill-form was traced)"),
+      ics: z.string().optional().describe("Also write an .ics calendar event for the booked collection to this file"),
+    }).merge(launchOptionsSchema).merge(waitOptionSchema).merge(verificationOptionSchema),
+    async (args, client: UPSClient) => {
+      return respond(client.submit({
+        trace: args.trace as boolean | undefined,
+        launch: launchOverrides(args),
+        wait: args.wait as number | undefined,
+        verificationCode: args.verificationCode as string | undefined,
+        ics: args.ics as string | undefined,
+      }));
+    },
     "Submit the filled form (after user confirmation)"
   ),
 
+  "cancel": createCommand(
+    z.object({
+      confirmation: z.string().describe("Confirmation number of the collection to cancel"),
+      confirm: z.boolean().optional().describe("Actually cancel (after previewing without this flag)"),
+      ics: z.string().optional().describe("With --confirm, also write an .ics cancellation (METHOD:CANCEL) to this file"),
+    }).merge(launchOptionsSchema).merge(waitOptionSchema),
+    async (args, client: UPSClient) => {
+      return respond(client.cancel({
+        confirmation: args.confirmation as string,
+        confirm: args.confirm as boolean | undefined,
+        launch: launchOverrides(args),
+        wait: args.wait as number | undefined,
+        ics: args.ics as string | undefined,
+      }));
+    },
+    "Find a scheduled collection and cancel it (two-stage: preview, then --confirm)"
+  ),
+
+  "run-schedule": createCommand(
+    z.object({
+      schedule: z.string().optional().describe("Only run this schedule from config.json (default: every enabled one)"),
+      dryRun: z.boolean().optional().describe("Show which slots are due without booking them"),
+    }).merge(launchOptionsSchema).merge(waitOptionSchema),
+    async (args, client: UPSClient) => {
+      return respond(client.runSchedule({
+        schedule: args.schedule as string | undefined,
+        dryRun: args.dryRun as boolean | undefined,
+        launch: launchOverrides(args),
+        wait: args.wait as number | undefined,
+      }));
+    },
+    "Book the next slot of each recurring schedule that is not booked yet (safe to repeat, e.g. from cron)"
+  ),
+
+  "next-dates": createCommand(
+    z.object({
+      count: cliTypes.int(1, 60).optional().describe("Number of dates to list (default: 5)"),
+    }),
+    async (args, client: UPSClient) => respond(client.nextDates(args.count as number | undefined)),
+    "List the next valid collection dates and why any days were skipped"
+  ),
+
+  "history": createCommand(
+    z.object({
+      from: z.string().optional().describe("Earliest collection date (YYYY-MM-DD)"),
+      to: z.string().optional().describe("Latest collection date (YYYY-MM-DD)"),
+      status: z.enum(["booked", "unconfirmed", "cancelled", "failed"]).optional().describe("Filter by outcome"),
+      confirmation: z.string().optional().describe("Filter by confirmation number"),
+      limit: cliTypes.int(1, 1000).optional().describe("Maximum entries to return"),
+    }),
+    async (args, client: UPSClient) => {
+      return respond(client.history({
+        from: args.from as string | undefined,
+        to: args.to as string | undefined,
+        status: args.status as "booked" | "unconfirmed" | "cancelled" | "failed" | undefined,
+        confirmation: args.confirmation as string | undefined,
+        limit: args.limit as number | undefined,
+      }));
+    },
+    "List recorded collection attempts from the booking ledger"
+  ),
+
+  "export-ics": createCommand(
+    z.object({
+      from: z.string().optional().describe("Earliest collection date (YYYY-MM-DD)"),
+      to: z.string().optional().describe("Latest collection date (YYYY-MM-DD)"),
+      output: z.string().optional().describe("File to write (default: <artifactDir>/collections.ics)"),
+    }),
+    async (args, client: UPSClient) => {
+      return respond(client.exportIcs({
+        from: args.from as string | undefined,
+        to: args.to as string | undefined,
+        output: args.output as string | undefined,
+      }));
+    },
+    "Write booked collections to an .ics file that calendars can subscribe to"
+  ),
+
+  "cleanup": createCommand(
+    z.object({
+      olderThan: z.string().optional().describe("Remove runs older than this, e.g. 30d, 12h, 2w"),
+      keepLast: cliTypes.int(0, 100000).optional().describe("Always keep this many of the newest runs"),
+      dryRun: z.boolean().optional().describe("List what would be removed without deleting anything"),
+    }),
+    async (args, client: UPSClient) => {
+      return respond(client.cleanup({
+        olderThan: args.olderThan as string | undefined,
+        keepLast: args.keepLast as number | undefined,
+        dryRun: args.dryRun as boolean | undefined,
+      }));
+    },
+    "Prune run artifacts by age or count (runs with a confirmation are always kept)"
+  ),
+
+  "profiles-list": createCommand(
+    z.object({}),
+    async (_args, client: UPSClient) => respond(client.listProfiles()),
+    "List configured collection profiles"
+  ),
+
+  "config-check": createCommand(
+    z.object({}),
+    async (_args, client: UPSClient) => respond(client.checkConfig()),
+    "Validate config.json and resolve credentials without launching a browser"
+  ),
+
+  "status": createCommand(
+    z.object({}),
+    async (_args, client: UPSClient) => respond(client.status()),
+    "Show the session state, open page, staleness and whether the browser is reachable"
+  ),
+
   "reset": createCommand(
     z.object({}),
-    async (_args, client: UPSClient) => client.reset(),
+    async (_args, client: UPSClient) => respond(client.reset()),
     "Close browser and clear session"
   ),
+
+  "logout": createCommand(
+    z.object({}),
+    async (_args, client: UPSClient) => respond(client.logout()),
+    "Forget the saved UPS login so the next run logs in again"
+  ),
 };
 
 // Run CLI
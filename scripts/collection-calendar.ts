@@ -0,0 +1,205 @@
+/**
+ * Collection Calendar
+ *
+ * Works out which days UPS can collect from us: working days only,
+ * skipping UK bank holidays and configured closure days, and rolling
+ * over to the next day once the same-day cutoff has passed.
+ *
+ * All "now" calculations use the Europe/London wall clock. Dates are
+ * handled as plain YYYY-MM-DD calendar days, so the result never
+ * shifts across midnight because of UTC conversion.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { UK_BANK_HOLIDAYS, BankHolidayCalendar } from "./uk-bank-holidays.js";
+
+const TIME_ZONE = "Europe/London";
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Safety limit when searching forward for valid days
+const MAX_LOOKAHEAD_DAYS = 366;
+
+export interface ClosureDay {
+  date: string;
+  reason?: string;
+}
+
+export interface CalendarConfig {
+  /** Same-day booking cutoff, HH:MM UK time (default: 13:00) */
+  cutoff?: string;
+  /** Days UPS can collect, 0 = Sunday … 6 = Saturday (default: Monday–Friday) */
+  workingDays?: number[];
+  /** gov.uk bank holiday division (default: england-and-wales) */
+  division?: string;
+  /** Path to a newer copy of https://www.gov.uk/bank-holidays.json */
+  holidaysFile?: string;
+  /** Site closures on top of bank holidays */
+  closures?: ClosureDay[];
+}
+
+export interface SkippedDay {
+  date: string;
+  reason: string;
+}
+
+export interface LondonNow {
+  date: string;
+  time: string;
+  minutes: number;
+}
+
+/** Returns the current calendar date and wall-clock time in London. */
+export function londonNow(now: Date = new Date()): LondonNow {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || "00";
+
+  const hour = Number(get("hour"));
+  const minute = Number(get("minute"));
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+    minutes: hour * 60 + minute,
+  };
+}
+
+/** Adds calendar days to a YYYY-MM-DD date. */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0];
+}
+
+/** Day of the week (0 = Sunday) for a YYYY-MM-DD date. */
+export function weekdayOf(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/** Weekday name (e.g. "Monday") for a YYYY-MM-DD date. */
+export function weekdayName(date: string): string {
+  return WEEKDAYS[weekdayOf(date)];
+}
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + (minute || 0);
+}
+
+export class CollectionCalendar {
+  readonly cutoff: string;
+  readonly workingDays: number[];
+  private holidays = new Map<string, string>();
+  private closures = new Map<string, string>();
+
+  constructor(config: CalendarConfig = {}) {
+    this.cutoff = config.cutoff || "13:00";
+    this.workingDays = config.workingDays || [1, 2, 3, 4, 5];
+
+    const division = config.division || "england-and-wales";
+    const calendars: BankHolidayCalendar[] = [UK_BANK_HOLIDAYS];
+    if (config.holidaysFile) {
+      if (!existsSync(config.holidaysFile)) {
+        throw new Error(`Bank holidays file not found at ${config.holidaysFile}`);
+      }
+      calendars.push(JSON.parse(readFileSync(config.holidaysFile, "utf-8")));
+    }
+    // A division nobody has data for would silently skip no holidays at all
+    if (!calendars.some((calendar) => calendar[division])) {
+      throw new Error(`No bank holidays for division "${division}" (expected england-and-wales, scotland or northern-ireland)`);
+    }
+    // Later files win, so an updated download overrides the bundled copy
+    for (const calendar of calendars) {
+      for (const event of calendar[division]?.events || []) {
+        this.holidays.set(event.date, event.title);
+      }
+    }
+
+    for (const closure of config.closures || []) {
+      this.closures.set(closure.date, closure.reason || "Site closed");
+    }
+  }
+
+  /** Explains why UPS cannot collect on a date, or returns null if it can. */
+  skipReason(date: string): string | null {
+    const weekday = weekdayOf(date);
+    if (!this.workingDays.includes(weekday)) {
+      return `${weekdayName(date)} is not a working day`;
+    }
+    const holiday = this.holidays.get(date);
+    if (holiday) {
+      return `Bank holiday: ${holiday}`;
+    }
+    const closure = this.closures.get(date);
+    if (closure) {
+      return `Closure: ${closure}`;
+    }
+    return null;
+  }
+
+  /**
+   * Lists the next valid collection dates.
+   *
+   * Today counts only before the cutoff. Every day passed over is
+   * returned in `skipped` with the reason.
+   */
+  nextDates(count: number, now: Date = new Date()): { dates: string[]; skipped: SkippedDay[] } {
+    const london = londonNow(now);
+    const dates: string[] = [];
+    const skipped: SkippedDay[] = [];
+
+    let candidate = london.date;
+    if (this.isPastCutoff(now)) {
+      skipped.push({ date: candidate, reason: `Past the ${this.cutoff} same-day cutoff` });
+      candidate = addDays(candidate, 1);
+    }
+
+    for (let i = 0; dates.length < count && i < MAX_LOOKAHEAD_DAYS; i++) {
+      const reason = this.skipReason(candidate);
+      if (reason) {
+        skipped.push({ date: candidate, reason });
+      } else {
+        dates.push(candidate);
+      }
+      candidate = addDays(candidate, 1);
+    }
+
+    return { dates, skipped };
+  }
+
+  /** Whether today's same-day cutoff (UK time) has passed. */
+  isPastCutoff(now: Date = new Date()): boolean {
+    return londonNow(now).minutes >= toMinutes(this.cutoff);
+  }
+
+  /** Next valid collection date (YYYY-MM-DD). */
+  nextDate(now: Date = new Date()): string {
+    const [date] = this.nextDates(1, now).dates;
+    if (!date) {
+      throw new Error("No valid collection date found in the next year. Check calendar.workingDays in config.json");
+    }
+    return date;
+  }
+
+  /**
+   * Earliest collection time for a date.
+   *
+   * When collecting today after noon, rounds up to the next hour;
+   * otherwise 12:00.
+   */
+  earliestTime(date: string, now: Date = new Date()): string {
+    const london = londonNow(now);
+    const hour = Math.floor(london.minutes / 60);
+
+    if (date === london.date && hour >= 12 && hour < 17) {
+      return `${hour + 1}:00`;
+    }
+    return "12:00";
+  }
+}
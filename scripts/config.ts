@@ -0,0 +1,425 @@
+/**
+ * Configuration
+ *
+ * Loads config.json and validates it against a zod schema, so a typo is
+ * reported with the key at fault instead of failing later in a driver.
+ *
+ * Credentials can stay out of the file. Each is taken from the first of:
+ * its environment variable, its secret command, the value in config.json.
+ *
+ *   ups.username      UPS_USERNAME            ups.usernameCommand
+ *   ups.password      UPS_PASSWORD            ups.passwordCommand
+ *   api.clientId      UPS_API_CLIENT_ID       api.clientIdCommand
+ *   api.clientSecret  UPS_API_CLIENT_SECRET   api.clientSecretCommand
+ *
+ * A secret command is run through the shell and its trimmed output used,
+ * e.g. "pass show ups/password" or "op read op://Shipping/UPS/password".
+ */
+
+import { execSync } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { ERROR_CODES, ErrorCode, UPSError } from "./errors.js";
+import { CollectionCalendar } from "./collection-calendar.js";
+import { DEFAULT_FIELD_LABELS, DEFAULT_STEP_SELECTORS, FieldName, SelectorStep } from "./selectors.js";
+import { totp } from "./verification-code.js";
+import type { Config } from "./types.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const CONFIG_PATH = process.env.UPS_CONFIG_PATH || join(__dirname, "..", "config.json");
+
+const SECRET_COMMAND_TIMEOUT_MS = 15000;
+
+export type CredentialSource = "env" | "command" | "config" | "missing";
+
+interface CredentialSpec {
+  /** Dotted key in config.json, e.g. "ups.password" */
+  key: string;
+  env: string;
+}
+
+const UPS_CREDENTIALS: CredentialSpec[] = [
+  { key: "ups.username", env: "UPS_USERNAME" },
+  { key: "ups.password", env: "UPS_PASSWORD" },
+];
+
+const API_CREDENTIALS: CredentialSpec[] = [
+  { key: "api.clientId", env: "UPS_API_CLIENT_ID" },
+  { key: "api.clientSecret", env: "UPS_API_CLIENT_SECRET" },
+];
+
+// ============================================
+// SCHEMA
+// ============================================
+
+const time = z.string().regex(/^([01]?\d|2[0-3]):[0-5]\d$/, "expected HH:MM");
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "expected YYYY-MM-DD");
+const selectorList = z.array(z.string().min(1)).nonempty();
+
+const launchProfileSchema = z.object({
+  headless: z.boolean().optional(),
+  viewport: z.object({ width: z.number().int().min(320), height: z.number().int().min(240) }).strict().optional(),
+  locale: z.string().optional(),
+  timezone: z.string().optional(),
+  executablePath: z.string().optional(),
+  args: z.array(z.string()).optional(),
+}).strict();
+
+const retryPolicySchema = z.object({
+  attempts: z.number().int().min(1).optional(),
+  backoffMs: z.number().int().min(0).optional(),
+  maxBackoffMs: z.number().int().min(0).optional(),
+  retryOn: z.array(z.enum(Object.keys(ERROR_CODES) as [ErrorCode, ...ErrorCode[]])).optional(),
+}).strict();
+
+const scheduleSchema = z.object({
+  weekdays: z.array(z.number().int().min(0).max(6)).nonempty(),
+  profile: z.string().optional(),
+  packages: z.number().int().min(1).max(99).optional(),
+  weight: z.number().int().min(1).max(1000).optional(),
+  earliestTime: time.optional(),
+  latestTime: time.optional(),
+  doorCode: z.string().regex(/^\d+$/, "digits only").optional(),
+  specialInstructions: z.string().optional(),
+  enabled: z.boolean().optional(),
+}).strict();
+
+const webhookSchema = z.object({
+  url: z.string().url(),
+  template: z.enum(["json", "slack"]).optional(),
+  events: z.array(z.enum(["fill-form", "submit", "book", "cancel"])).optional(),
+  outcomes: z.array(z.enum(["success", "failure"])).optional(),
+  secret: z.string().min(1).optional(),
+  secretEnv: z.string().min(1).optional(),
+  headers: z.record(z.string()).optional(),
+  attempts: z.number().int().min(1).max(10).optional(),
+  backoffMs: z.number().int().min(0).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+}).strict();
+
+const doorCodeSchema = z.object({
+  command: z.string().min(1).optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string()).optional(),
+  file: z.string().min(1).optional(),
+  code: z.string().regex(/^[\d\s-]+$/, "digits, dashes and spaces only").optional(),
+  postedAt: z.string().datetime({ offset: true }).optional(),
+  codeField: z.string().min(1).optional(),
+  postedAtField: z.string().min(1).optional(),
+  pattern: z.string().refine((pattern) => {
+    try {
+      new RegExp(pattern);
+      return true;
+    } catch {
+      return false;
+    }
+  }, "not a valid regular expression").optional(),
+  digits: z.number().int().min(1).max(20).optional(),
+  maxAgeHours: z.number().min(0).optional(),
+  timeoutSeconds: z.number().int().positive().optional(),
+}).strict();
+
+const profileSchema = z.object({
+  company: z.string().min(1),
+  address: z.string().min(1),
+  city: z.string().min(1),
+  postalCode: z.string().min(1),
+  telephone: z.string().min(1),
+  collectFrom: z.string().min(1),
+  email: z.string().email(),
+  paymentAccount: z.string().min(1),
+  doorCode: doorCodeSchema.optional(),
+}).strict();
+
+export const configSchema = z.object({
+  _comment: z.string().optional(),
+  ups: z.object({
+    username: z.string().optional(),
+    usernameCommand: z.string().optional(),
+    password: z.string().optional(),
+    passwordCommand: z.string().optional(),
+    verification: z.object({
+      totpSecret: z.string().optional(),
+      command: z.string().optional(),
+      file: z.string().optional(),
+      stdin: z.boolean().optional(),
+      timeoutSeconds: z.number().int().positive().optional(),
+    }).strict().optional(),
+  }).strict().default({}),
+  urls: z.object({
+    login: z.string().url().optional(),
+    form: z.string().url().optional(),
+    history: z.string().url().optional(),
+  }).strict().optional(),
+  driver: z.enum(["browser", "api"]).optional(),
+  api: z.object({
+    baseUrl: z.string().url().optional(),
+    clientId: z.string().optional(),
+    clientIdCommand: z.string().optional(),
+    clientSecret: z.string().optional(),
+    clientSecretCommand: z.string().optional(),
+    version: z.string().optional(),
+    countryCode: z.string().length(2).optional(),
+  }).strict().optional(),
+  defaultProfile: z.string().optional(),
+  profiles: z.record(profileSchema).refine((profiles) => Object.keys(profiles).length > 0, "add at least one profile"),
+  ledgerPath: z.string().optional(),
+  calendar: z.object({
+    cutoff: time.optional(),
+    workingDays: z.array(z.number().int().min(0).max(6)).optional(),
+    division: z.enum(["england-and-wales", "scotland", "northern-ireland"]).optional(),
+    holidaysFile: z.string().optional(),
+    closures: z.array(z.object({ date: isoDate, reason: z.string().optional() }).strict()).optional(),
+  }).strict().optional(),
+  artifactDir: z.string().optional(),
+  authStateMaxAgeHours: z.number().min(0).optional(),
+  sessionTtlMinutes: z.number().positive().optional(),
+  launchProfiles: z.record(launchProfileSchema).optional(),
+  defaultLaunchProfile: z.string().optional(),
+  selectors: z.object({
+    steps: z.record(z.enum(Object.keys(DEFAULT_STEP_SELECTORS) as [SelectorStep, ...SelectorStep[]]), selectorList).optional(),
+    fields: z.record(z.enum(Object.keys(DEFAULT_FIELD_LABELS) as [FieldName, ...FieldName[]]), selectorList).optional(),
+  }).strict().optional(),
+  schedules: z.record(scheduleSchema).optional(),
+  doorCode: doorCodeSchema.optional(),
+  webhooks: z.record(webhookSchema).optional(),
+  lock: z.object({
+    waitSeconds: z.number().min(0).optional(),
+    ttlSeconds: z.number().positive().optional(),
+  }).strict().optional(),
+  retry: retryPolicySchema.extend({
+    steps: z.record(z.enum(["navigation", "login", "fill", "review", "submit"]), retryPolicySchema).optional(),
+  }).strict().optional(),
+}).strict().superRefine((config, ctx) => {
+  if (config.defaultProfile && !config.profiles[config.defaultProfile]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["defaultProfile"],
+      message: `no profile named "${config.defaultProfile}" (have: ${Object.keys(config.profiles).join(", ")})`,
+    });
+  }
+  if (config.defaultLaunchProfile && !config.launchProfiles?.[config.defaultLaunchProfile]) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["defaultLaunchProfile"],
+      message: `no launch profile named "${config.defaultLaunchProfile}"`,
+    });
+  }
+  for (const [name, schedule] of Object.entries(config.schedules || {})) {
+    if (schedule.profile && !config.profiles[schedule.profile]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["schedules", name, "profile"],
+        message: `no profile named "${schedule.profile}"`,
+      });
+    }
+  }
+});
+
+/** Formats a schema issue as "<key>: <problem>". */
+function describeIssue(issue: z.ZodIssue): string[] {
+  const path = issue.path.join(".");
+  if (issue.code === "unrecognized_keys") {
+    return issue.keys.map((key) => `${path ? `${path}.` : ""}${key}: unknown key`);
+  }
+  return [`${path || "(root)"}: ${issue.message}`];
+}
+
+// ============================================
+// CREDENTIALS
+// ============================================
+
+function runSecretCommand(command: string): string {
+  return execSync(command, {
+    encoding: "utf-8",
+    timeout: SECRET_COMMAND_TIMEOUT_MS,
+    stdio: ["ignore", "pipe", "pipe"],
+  }).trim();
+}
+
+/**
+ * Fills in each credential from its environment variable, secret command
+ * or config value, in that order, and notes where it came from.
+ */
+function resolveCredentials(
+  section: Record<string, any>,
+  specs: CredentialSpec[],
+  env: NodeJS.ProcessEnv,
+  sources: Record<string, CredentialSource>,
+  problems: string[]
+): void {
+  for (const { key, env: envName } of specs) {
+    const name = key.split(".")[1];
+    const command = section[`${name}Command`];
+    if (env[envName]) {
+      section[name] = env[envName];
+      sources[key] = "env";
+    } else if (command) {
+      try {
+        section[name] = runSecretCommand(command);
+        sources[key] = section[name] ? "command" : "missing";
+        if (!section[name]) {
+          problems.push(`${key}Command: printed nothing`);
+        }
+      } catch (error: any) {
+        problems.push(`${key}Command: failed (${(error.stderr || error.message || "").toString().trim()})`);
+        sources[key] = "missing";
+      }
+    } else {
+      sources[key] = section[name] ? "config" : "missing";
+    }
+    delete section[`${name}Command`];
+  }
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+export interface ResolvedConfig {
+  config: Config | null;
+  /** Where each credential came from */
+  credentials: Record<string, CredentialSource>;
+  problems: string[];
+}
+
+/**
+ * Validates a parsed config.json and resolves its credentials.
+ * Never throws; every problem found is listed.
+ */
+export function resolveConfig(raw: unknown, env: NodeJS.ProcessEnv = process.env): ResolvedConfig {
+  const credentials: Record<string, CredentialSource> = {};
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    return { config: null, credentials, problems: parsed.error.issues.flatMap(describeIssue) };
+  }
+
+  const config = parsed.data as Record<string, any>;
+  const problems: string[] = [];
+  const driver = config.driver || "browser";
+
+  resolveCredentials(config.ups, UPS_CREDENTIALS, env, credentials, problems);
+  if (config.api || driver === "api") {
+    config.api = config.api || {};
+    resolveCredentials(config.api, API_CREDENTIALS, env, credentials, problems);
+  }
+
+  // Only the selected driver's credentials are required
+  for (const { key, env: envName } of driver === "api" ? API_CREDENTIALS : UPS_CREDENTIALS) {
+    if (credentials[key] === "missing" && !problems.some((problem) => problem.startsWith(key))) {
+      problems.push(`${key}: not set (use ${envName}, ${key}Command or ${key} in config.json)`);
+    }
+  }
+
+  return { config: config as Config, credentials, problems };
+}
+
+/**
+ * Reads, validates and resolves config.json.
+ *
+ * @throws UPSError CONFIG_MISSING if the file does not exist, CONFIG_INVALID
+ *   (with a `problems` list) if it does not parse or validate
+ */
+export function loadConfig(path: string = CONFIG_PATH, env: NodeJS.ProcessEnv = process.env): Config {
+  if (!existsSync(path)) {
+    throw new UPSError("CONFIG_MISSING", `Config file not found at ${path}`);
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    throw new UPSError("CONFIG_INVALID", `Could not parse ${path}: ${error.message}`);
+  }
+
+  const { config, problems } = resolveConfig(raw, env);
+  if (!config || problems.length > 0) {
+    throw new UPSError("CONFIG_INVALID", `Invalid ${path}: ${problems.join("; ")}`, { problems });
+  }
+  return config;
+}
+
+export interface ConfigCheck {
+  path: string;
+  valid: boolean;
+  driver: string | null;
+  credentials: Record<string, CredentialSource>;
+  profiles: string[];
+  defaultProfile: string | null;
+  problems: string[];
+  /** Values that look unfinished, such as template placeholders */
+  warnings: string[];
+}
+
+/**
+ * Runs every check loadConfig() does plus the ones a driver would only hit
+ * later (calendar, TOTP secret, placeholders), without launching anything.
+ */
+export function checkConfig(path: string = CONFIG_PATH, env: NodeJS.ProcessEnv = process.env): ConfigCheck {
+  const report: ConfigCheck = {
+    path,
+    valid: false,
+    driver: null,
+    credentials: {},
+    profiles: [],
+    defaultProfile: null,
+    problems: [],
+    warnings: [],
+  };
+  if (!existsSync(path)) {
+    report.problems.push(`Config file not found at ${path}`);
+    return report;
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error: any) {
+    report.problems.push(`Could not parse ${path}: ${error.message}`);
+    return report;
+  }
+
+  const { config, credentials, problems } = resolveConfig(raw, env);
+  report.credentials = credentials;
+  report.problems.push(...problems);
+  if (config) {
+    report.driver = config.driver || "browser";
+    report.profiles = Object.keys(config.profiles);
+    report.defaultProfile = config.defaultProfile || report.profiles[0] || null;
+
+    try {
+      new CollectionCalendar(config.calendar);
+    } catch (error: any) {
+      report.problems.push(`calendar: ${error.message}`);
+    }
+    if (config.ups.verification?.totpSecret) {
+      try {
+        totp(config.ups.verification.totpSecret);
+      } catch (error: any) {
+        report.problems.push(`ups.verification.totpSecret: ${error.message}`);
+      }
+    }
+  }
+
+  // Placeholders from config.template.json, anywhere in the raw file
+  const placeholders = (value: unknown, key: string): string[] => {
+    if (typeof value === "string") {
+      return value.startsWith("YOUR_") ? [key] : [];
+    }
+    if (value && typeof value === "object") {
+      return Object.entries(value).flatMap(([child, inner]) => placeholders(inner, key ? `${key}.${child}` : child));
+    }
+    return [];
+  };
+  for (const key of placeholders(raw, "")) {
+    if (credentials[key] === "env" || credentials[key] === "command") {
+      continue;
+    }
+    report.warnings.push(`${key}: still the template placeholder`);
+  }
+
+  report.valid = report.problems.length === 0;
+  return report;
+}
@@ -0,0 +1,212 @@
+/**
+ * Door Codes
+ *
+ * When fill-form or book gets no --door-code (and no special
+ * instructions), the code is taken from the first source configured under
+ * "doorCode" in config.json (or in the collection profile, for a site with
+ * its own code):
+ *
+ * 1. command: a shell command that prints the code (e.g. the Slack CLI)
+ * 2. url: an HTTP endpoint returning the code
+ * 3. file: a file holding the code
+ * 4. code: a fixed code, for doors that never change
+ *
+ * Output may be JSON ({"code": "...", "postedAt": "..."}, field names
+ * configurable) or text such as a CSV row, where the code is the first
+ * field made only of digits, dashes and spaces that is not a date (one
+ * with the configured number of digits, if any has), and the posting time
+ * the first ISO 8601 timestamp. Dashes and spaces are stripped before the
+ * code is checked.
+ *
+ * A code posted more than maxAgeHours ago is stale and its source is
+ * skipped. A file's posting time is when it was written.
+ */
+
+import { exec } from "child_process";
+import { readFileSync, statSync } from "fs";
+import { promisify } from "util";
+
+export type DoorCodeSource = "option" | "command" | "url" | "file" | "code";
+
+/** Where door codes come from; "doorCode" in config.json or a profile. */
+export interface DoorCodeConfig {
+  /** Shell command that prints the code */
+  command?: string;
+  /** HTTP endpoint (GET) returning the code */
+  url?: string;
+  /** Extra request headers for url, e.g. an Authorization token */
+  headers?: Record<string, string>;
+  /** File holding the code */
+  file?: string;
+  /** Fixed code */
+  code?: string;
+  /** When the fixed code was set (ISO 8601), for the staleness check */
+  postedAt?: string;
+  /** Field holding the code in JSON output, dot-separated (default "code") */
+  codeField?: string;
+  /** Field holding the posting time in JSON output (default "postedAt") */
+  postedAtField?: string;
+  /** Regular expression whose first group is the code, for text output */
+  pattern?: string;
+  /** Exact number of digits (default: 3 to 12) */
+  digits?: number;
+  /** Hours after posting a code is trusted (default 24, 0 disables the check) */
+  maxAgeHours?: number;
+  /** How long to wait for the command or endpoint (default 30) */
+  timeoutSeconds?: number;
+}
+
+export interface DoorCodeResult {
+  code: string | null;
+  source: DoorCodeSource | null;
+  /** When the code was posted, if known */
+  postedAt: string | null;
+  /** Why each source tried before the answer (or all of them) gave nothing */
+  tried: string[];
+}
+
+const DEFAULT_MAX_AGE_HOURS = 24;
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const MIN_DIGITS = 3;
+const MAX_DIGITS = 12;
+const CODE_FIELD = /^\d+(?:[ -]+\d+)*$/;
+const DATE_FIELD = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}-\d{1,2}-\d{4})$/;
+const TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/;
+
+const execAsync = promisify(exec);
+
+/** Strips the dashes and spaces codes are often posted with ("123-456-789"). */
+export function normalizeDoorCode(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+/** Why a normalised code is not a usable door code, or null if it is. */
+export function doorCodeProblem(code: string, digits?: number): string | null {
+  if (!/^\d+$/.test(code)) {
+    return "Door code must contain digits only";
+  }
+  if (digits !== undefined && code.length !== digits) {
+    return `Door code must have ${digits} digits (got ${code.length})`;
+  }
+  if (digits === undefined && (code.length < MIN_DIGITS || code.length > MAX_DIGITS)) {
+    return `Door code must have ${MIN_DIGITS} to ${MAX_DIGITS} digits (got ${code.length})`;
+  }
+  return null;
+}
+
+/** Why a code posted at a time is too old to trust, or null if it is not. */
+export function staleReason(postedAt: string | null, maxAgeHours: number = DEFAULT_MAX_AGE_HOURS, now: Date = new Date()): string | null {
+  if (!postedAt || maxAgeHours === 0) {
+    return null;
+  }
+  const posted = Date.parse(postedAt);
+  if (isNaN(posted)) {
+    return null;
+  }
+  const ageHours = (now.getTime() - posted) / 3600000;
+  return ageHours > maxAgeHours ? `posted ${Math.floor(ageHours)}h ago (older than ${maxAgeHours}h)` : null;
+}
+
+function field(value: any, path: string): any {
+  return path.split(".").reduce((current, key) => (current == null ? undefined : current[key]), value);
+}
+
+/**
+ * Reads a code and its posting time from command, endpoint or file output.
+ *
+ * @returns The code as posted (not yet normalised) and when, each null if not found
+ */
+export function parseDoorCode(text: string, config: DoorCodeConfig = {}): { code: string | null; postedAt: string | null } {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed);
+      const code = field(json, config.codeField ?? "code");
+      const postedAt = field(json, config.postedAtField ?? "postedAt");
+      return {
+        code: code == null ? null : String(code),
+        postedAt: postedAt == null ? null : String(postedAt),
+      };
+    } catch {
+      // Not JSON after all; read it as text
+    }
+  }
+
+  const postedAt = trimmed.match(TIMESTAMP)?.[0] ?? null;
+  if (config.pattern) {
+    const match = trimmed.match(new RegExp(config.pattern));
+    return { code: match ? (match[1] ?? match[0]) : null, postedAt };
+  }
+  const candidates = trimmed
+    .split(/[\r\n,;\t|"]+/)
+    .map((part) => part.trim())
+    .filter((part) => CODE_FIELD.test(part) && !DATE_FIELD.test(part));
+  const code = candidates.find((part) => !doorCodeProblem(normalizeDoorCode(part), config.digits)) ?? candidates[0] ?? null;
+  return { code, postedAt };
+}
+
+async function fromCommand(config: DoorCodeConfig, timeoutMs: number) {
+  const { stdout } = await execAsync(config.command!, { timeout: timeoutMs });
+  return parseDoorCode(stdout, config);
+}
+
+async function fromUrl(config: DoorCodeConfig, timeoutMs: number) {
+  const response = await fetch(config.url!, { headers: config.headers, signal: AbortSignal.timeout(timeoutMs) });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return parseDoorCode(await response.text(), config);
+}
+
+function fromFile(config: DoorCodeConfig) {
+  const parsed = parseDoorCode(readFileSync(config.file!, "utf-8"), config);
+  return { code: parsed.code, postedAt: parsed.postedAt ?? statSync(config.file!).mtime.toISOString() };
+}
+
+/** The configured sources, in the order they are tried. */
+export function doorCodeSources(config: DoorCodeConfig): Exclude<DoorCodeSource, "option">[] {
+  return (["command", "url", "file", "code"] as const).filter((source) => config[source]);
+}
+
+/**
+ * Gets a door code from the configured sources, in order.
+ *
+ * @param config - "doorCode" from config.json or the collection profile
+ * @param now - For the staleness check
+ * @returns The normalised code, its source and posting time, or null with what was tried
+ */
+export async function obtainDoorCode(config: DoorCodeConfig, now: Date = new Date()): Promise<DoorCodeResult> {
+  const timeoutMs = (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const tried: string[] = [];
+
+  const readers: Record<ReturnType<typeof doorCodeSources>[number], () => Promise<{ code: string | null; postedAt: string | null }>> = {
+    command: () => fromCommand(config, timeoutMs),
+    url: () => fromUrl(config, timeoutMs),
+    file: async () => fromFile(config),
+    code: async () => ({ code: config.code!, postedAt: config.postedAt ?? null }),
+  };
+  const sources = doorCodeSources(config);
+  if (sources.length === 0) {
+    tried.push("no door code source configured (doorCode)");
+  }
+
+  for (const source of sources) {
+    try {
+      const { code: posted, postedAt } = await readers[source]();
+      if (!posted) {
+        tried.push(`${source}: no door code found`);
+        continue;
+      }
+      const code = normalizeDoorCode(posted);
+      const problem = doorCodeProblem(code, config.digits) ?? staleReason(postedAt, config.maxAgeHours, now);
+      if (problem) {
+        tried.push(`${source}: "${posted}" ${problem.replace(/^Door code /, "")}`);
+        continue;
+      }
+      return { code, source, postedAt, tried };
+    } catch (error: any) {
+      tried.push(`${source}: ${error.message}`);
+    }
+  }
+  return { code: null, source: null, postedAt: null, tried };
+}
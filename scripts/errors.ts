@@ -0,0 +1,206 @@
+/**
+ * Error Codes
+ *
+ * Every failure result carries a stable `code`, the process exit code the
+ * CLI exits with, whether running the same command again may succeed, and
+ * a suggested remediation. Callers should branch on `code`, not `message`.
+ */
+
+export interface ErrorDefinition {
+  exitCode: number;
+  retryable: boolean;
+  remediation: string;
+}
+
+export const ERROR_CODES = {
+  CONFIG_MISSING: {
+    exitCode: 10,
+    retryable: false,
+    remediation: "Copy config.template.json to config.json (or set UPS_CONFIG_PATH) and fill in credentials and profiles.",
+  },
+  CONFIG_INVALID: {
+    exitCode: 11,
+    retryable: false,
+    remediation: "Fix the setting named in the message in config.json.",
+  },
+  LOGIN_FIELD_MISSING: {
+    exitCode: 20,
+    retryable: true,
+    remediation: "The UPS login page did not load as expected. Check the screenshot, run reset and retry.",
+  },
+  CREDENTIALS_REJECTED: {
+    exitCode: 21,
+    retryable: false,
+    remediation: "Check ups.username and ups.password (or api.clientId and api.clientSecret) in config.json, then log in manually once to clear any security prompt.",
+  },
+  VERIFICATION_REQUIRED: {
+    exitCode: 22,
+    retryable: false,
+    remediation: "UPS asked for a verification code and none could be obtained. Ask the user for the code and rerun with --verification-code, or configure ups.verification (totpSecret, command or file) in config.json.",
+  },
+  VERIFICATION_FAILED: {
+    exitCode: 23,
+    retryable: true,
+    remediation: "UPS did not accept the verification code. Check the screenshot; if the code had expired, retry to get a new one.",
+  },
+  INVALID_INPUT: {
+    exitCode: 30,
+    retryable: false,
+    remediation: "Correct the values listed in problems and run the command again.",
+  },
+  DATE_UNAVAILABLE: {
+    exitCode: 31,
+    retryable: false,
+    remediation: "Pick another date from next-dates.",
+  },
+  ALREADY_BOOKED: {
+    exitCode: 32,
+    retryable: false,
+    remediation: "Use the existing collection, or pass --allow-duplicate if a second collection is really needed.",
+  },
+  FORM_NOT_FILLED: {
+    exitCode: 33,
+    retryable: false,
+    remediation: "Run fill-form first, then submit.",
+  },
+  INVALID_STATE: {
+    exitCode: 34,
+    retryable: false,
+    remediation: "Run status to see where the session is, or reset to start over.",
+  },
+  SESSION_BUSY: {
+    exitCode: 35,
+    retryable: true,
+    remediation: "Another command is using the browser session. Wait for it to finish and retry, or pass --wait SECONDS. Locks left by crashed commands are cleared automatically.",
+  },
+  DOOR_CODE_UNAVAILABLE: {
+    exitCode: 36,
+    retryable: true,
+    remediation: "No usable door code was found (see tried). Ask the user for the code and pass --door-code, or check the doorCode sources in config.json.",
+  },
+  FORM_FIELD_NOT_FOUND: {
+    exitCode: 40,
+    retryable: true,
+    remediation: "Check the screenshot and verification report, run reset and retry. If it keeps failing the UPS form has changed.",
+  },
+  SUBMIT_BUTTON_NOT_FOUND: {
+    exitCode: 41,
+    retryable: true,
+    remediation: "Nothing was booked. Check the screenshot, run reset and retry.",
+  },
+  CONFIRMATION_NOT_PARSED: {
+    exitCode: 42,
+    retryable: false,
+    remediation: "The collection may have been booked. Check the confirmation screenshot and the UPS pickup history before trying again.",
+  },
+  BOOKING_NOT_FOUND: {
+    exitCode: 50,
+    retryable: false,
+    remediation: "Check the confirmation number with history.",
+  },
+  CANCEL_FAILED: {
+    exitCode: 52,
+    retryable: true,
+    remediation: "Check the screenshot and the UPS pickup history; the collection may still be scheduled.",
+  },
+  API_REQUEST_FAILED: {
+    exitCode: 60,
+    retryable: true,
+    remediation: "Check the api settings in config.json and the UPS developer status page, then retry.",
+  },
+  NOT_SUPPORTED: {
+    exitCode: 61,
+    retryable: false,
+    remediation: 'Switch to the "browser" driver for this command.',
+  },
+  BROWSER_CRASHED: {
+    exitCode: 70,
+    retryable: true,
+    remediation: "Run reset and retry. If Chromium will not start, run `npx playwright install chromium`.",
+  },
+  PAGE_TIMEOUT: {
+    exitCode: 71,
+    retryable: true,
+    remediation: "A UPS page or element did not load in time. Retry; if it keeps happening check the screenshot and the UPS status page.",
+  },
+  UNKNOWN: {
+    exitCode: 1,
+    retryable: false,
+    remediation: "Read the message and any screenshot, run reset, and report it if it happens again.",
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_CODES;
+
+// Playwright messages for a browser that died or never started
+const BROWSER_CRASH_PATTERN =
+  /Target (page, context or browser )?(has been )?closed|Browser has been closed|browser has disconnected|crashed|browserType\.(launch|connect)|Executable doesn't exist/i;
+
+// Playwright's TimeoutError message, e.g. "page.goto: Timeout 60000ms exceeded."
+const TIMEOUT_PATTERN = /Timeout \d+ms exceeded/i;
+
+/** A failure with a stable error code. Thrown where a result object cannot be returned. */
+export class UPSError extends Error {
+  readonly code: ErrorCode;
+  readonly details: Record<string, any>;
+
+  constructor(code: ErrorCode, message: string, details: Record<string, any> = {}) {
+    super(message);
+    this.name = "UPSError";
+    this.code = code;
+    this.details = details;
+  }
+
+  get retryable(): boolean {
+    return ERROR_CODES[this.code].retryable;
+  }
+}
+
+/** Builds a `{ error: true, code, ... }` result for a failure. */
+export function errorResult(code: ErrorCode, message: string, details: Record<string, any> = {}): any {
+  const { exitCode, retryable, remediation } = ERROR_CODES[code];
+  return { error: true, code, message, retryable, remediation, exitCode, ...details };
+}
+
+/**
+ * Picks the error code for a caught error: its own code for a UPSError,
+ * BROWSER_CRASHED for a dead browser, PAGE_TIMEOUT for a Playwright
+ * timeout, otherwise the fallback.
+ */
+export function errorCodeOf(error: unknown, fallback: ErrorCode = "UNKNOWN"): ErrorCode {
+  if (error instanceof UPSError) {
+    return error.code;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (BROWSER_CRASH_PATTERN.test(message)) {
+    return "BROWSER_CRASHED";
+  }
+  return TIMEOUT_PATTERN.test(message) ? "PAGE_TIMEOUT" : fallback;
+}
+
+/**
+ * Converts a caught error into an error result.
+ *
+ * @param error - The caught error
+ * @param fallback - Code to use when the error is not recognised
+ * @param prefix - Context for the message, e.g. "Submit failed"
+ * @param details - Extra result fields such as screenshot paths
+ */
+export function toErrorResult(
+  error: unknown,
+  fallback: ErrorCode = "UNKNOWN",
+  prefix?: string,
+  details: Record<string, any> = {}
+): any {
+  const message = error instanceof Error ? error.message : String(error);
+  const own = error instanceof UPSError ? error.details : {};
+  return errorResult(errorCodeOf(error, fallback), prefix ? `${prefix}: ${message}` : message, { ...own, ...details });
+}
+
+/** Process exit code for a command result: 0 unless the result is an error. */
+export function exitCodeOf(result: any): number {
+  if (!result?.error) {
+    return 0;
+  }
+  return ERROR_CODES[result.code as ErrorCode]?.exitCode ?? ERROR_CODES.UNKNOWN.exitCode;
+}
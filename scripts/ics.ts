@@ -0,0 +1,158 @@
+/**
+ * iCalendar Export
+ *
+ * Builds RFC 5545 .ics files for booked collections, so the collection
+ * window can go into any calendar without retyping it. Each event:
+ *
+ * - runs from earliestTime to latestTime in Europe/London (with a
+ *   VTIMEZONE, so clocks changing between booking and collection are fine)
+ * - is placed at the profile's collection address
+ * - uses the UPS confirmation number as its UID, so a re-export or a
+ *   cancellation updates the same event instead of adding another
+ *
+ * A cancellation is written as METHOD:CANCEL with STATUS:CANCELLED and a
+ * higher SEQUENCE. Door codes are left out; calendars get shared.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import type { FormState } from "./types.js";
+
+const TIME_ZONE = "Europe/London";
+const PRODUCT_ID = "-//ups-collection-manager//Collections//EN";
+
+// Europe/London since 1996: BST from the last Sunday of March to the last Sunday of October
+const LONDON_TIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIME_ZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0000",
+  "TZOFFSETTO:+0100",
+  "TZNAME:BST",
+  "DTSTART:19700329T010000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0000",
+  "TZNAME:GMT",
+  "DTSTART:19701025T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/** A collection to put in a calendar. */
+export interface CollectionEvent {
+  confirmationNumber: string;
+  formState: FormState;
+  /** Parsed confirmation page fields, e.g. totalCharges */
+  confirmation?: Record<string, any>;
+  cancelled?: boolean;
+}
+
+export type CalendarMethod = "PUBLISH" | "CANCEL";
+
+export interface ExportIcsOptions {
+  /** Earliest collection date (YYYY-MM-DD) */
+  from?: string;
+  /** Latest collection date (YYYY-MM-DD) */
+  to?: string;
+  /** File to write (default: <artifactDir>/collections.ics) */
+  output?: string;
+}
+
+/** Escapes a TEXT value (RFC 5545 3.3.11). */
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to 75 octets, continuing with a space (RFC 5545 3.1). */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+// "2026-10-20" and "13:00" to "20261020T130000"
+function localDateTime(date: string, time: string): string {
+  const [hour, minute] = time.split(":");
+  return `${date.replace(/-/g, "")}T${hour.padStart(2, "0")}${minute}00`;
+}
+
+function utcStamp(now: Date): string {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function eventLines(event: CollectionEvent, now: Date): string[] {
+  const { formState, confirmationNumber, confirmation } = event;
+  const description = [
+    "UPS Collection" + (event.cancelled ? " (cancelled)" : ""),
+    "",
+    `Confirmation Number: ${confirmationNumber}`,
+    `Collection Window: ${formState.earliestTime} - ${formState.latestTime} (UK time)`,
+    `Packages: ${formState.packages}`,
+    `Weight: ${formState.weight} kg`,
+    ...(confirmation?.totalCharges ? [`Total Charges: ${confirmation.totalCharges}`] : []),
+    `Collect From: ${formState.collectFrom}`,
+  ].join("\n");
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${confirmationNumber}`,
+    `DTSTAMP:${utcStamp(now)}`,
+    `DTSTART;TZID=${TIME_ZONE}:${localDateTime(formState.date, formState.earliestTime)}`,
+    `DTEND;TZID=${TIME_ZONE}:${localDateTime(formState.date, formState.latestTime)}`,
+    `SUMMARY:${escapeText(`UPS Collection - ${confirmationNumber}`)}`,
+    `LOCATION:${escapeText(`${formState.company}, ${formState.address}, ${formState.city}, ${formState.postalCode}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`,
+    `SEQUENCE:${event.cancelled ? 1 : 0}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+}
+
+/**
+ * Builds an .ics calendar.
+ *
+ * @param events - Collections to include
+ * @param method - PUBLISH for a booking or feed, CANCEL to withdraw the events
+ * @param now - Timestamp for DTSTAMP
+ * @returns File contents with CRLF line endings
+ */
+export function buildCalendar(events: CollectionEvent[], method: CalendarMethod = "PUBLISH", now: Date = new Date()): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    "X-WR-CALNAME:UPS Collections",
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...LONDON_TIMEZONE,
+    ...events.flatMap((event) => eventLines({ ...event, cancelled: event.cancelled || method === "CANCEL" }, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/** Writes an .ics file, creating its directory. */
+export function writeCalendar(path: string, contents: string): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, contents);
+}
@@ -0,0 +1,89 @@
+/**
+ * Browser Launch Profiles
+ *
+ * How Chromium is started: headed or headless, viewport, locale, timezone,
+ * binary and extra arguments. Settings are layered, later ones winning:
+ *
+ * 1. Built-in defaults (headed, 1280x800, the arguments below)
+ * 2. The named profile from "launchProfiles" in config.json, chosen with
+ *    --launch-profile or "defaultLaunchProfile"
+ * 3. UPS_HEADLESS=1 (used by the offline tests)
+ * 4. Command-line flags (--headless, --viewport, ...)
+ *
+ * The stealth plugin is applied in every mode; it is registered on the
+ * playwright-extra chromium instance, not per launch.
+ */
+
+import { UPSError } from "./errors.js";
+import type { Config, LaunchOverrides } from "./types.js";
+
+export const DEFAULT_LAUNCH_ARGS = [
+  "--disable-blink-features=AutomationControlled",  // Hide automation flag
+  "--no-first-run",
+  "--no-default-browser-check",
+  "--no-sandbox",
+];
+
+const DEFAULT_VIEWPORT = { width: 1280, height: 800 };
+
+export interface ResolvedLaunchProfile {
+  /** Profile name from config.json, or "default" */
+  name: string;
+  headless: boolean;
+  viewport: { width: number; height: number };
+  locale: string | null;
+  timezone: string | null;
+  executablePath: string | null;
+  args: string[];
+  /** Always true; reported so runs can be compared */
+  stealth: true;
+}
+
+/** Parses "1920x1080" into a viewport. */
+export function parseViewport(value: string): { width: number; height: number } {
+  const match = value.trim().match(/^(\d{3,5})\s*[x×]\s*(\d{3,5})$/i);
+  if (!match) {
+    throw new UPSError("INVALID_INPUT", `Invalid viewport "${value}", expected WIDTHxHEIGHT (e.g. 1920x1080)`);
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
+
+/**
+ * Resolves the launch settings for a run.
+ *
+ * @param config - Config with launchProfiles and defaultLaunchProfile
+ * @param overrides - Command-line settings
+ * @throws UPSError INVALID_INPUT for an unknown profile or bad viewport
+ */
+export function resolveLaunchProfile(
+  config: Pick<Config, "launchProfiles" | "defaultLaunchProfile">,
+  overrides: LaunchOverrides = {}
+): ResolvedLaunchProfile {
+  const profiles = config.launchProfiles || {};
+  const name = overrides.profile || config.defaultLaunchProfile;
+  if (name && !profiles[name]) {
+    const available = Object.keys(profiles);
+    throw new UPSError(
+      "INVALID_INPUT",
+      `Unknown launch profile "${name}". ${available.length > 0 ? `Available: ${available.join(", ")}` : "No launchProfiles in config.json"}`
+    );
+  }
+  const profile = name ? profiles[name] : {};
+
+  let headless = profile.headless ?? false;
+  if (process.env.UPS_HEADLESS === "1") {
+    headless = true;
+  }
+  headless = overrides.headless ?? headless;
+
+  return {
+    name: name || "default",
+    headless,
+    viewport: overrides.viewport ? parseViewport(overrides.viewport) : profile.viewport || DEFAULT_VIEWPORT,
+    locale: overrides.locale || profile.locale || null,
+    timezone: overrides.timezone || profile.timezone || null,
+    executablePath: overrides.executablePath || profile.executablePath || null,
+    args: [...DEFAULT_LAUNCH_ARGS, ...(profile.args || []), ...(overrides.args || [])],
+    stealth: true,
+  };
+}
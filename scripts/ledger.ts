@@ -0,0 +1,117 @@
+/**
+ * Booking Ledger
+ *
+ * Append-only JSONL record of every collection attempt made through
+ * submit(), book() or cancel(). Each line holds the form state, the parsed
+ * confirmation, screenshot paths and the outcome, so bookings can be
+ * audited without logging in to UPS.
+ */
+
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { FormState } from "./types.js";
+
+export type LedgerStatus = "booked" | "unconfirmed" | "cancelled" | "failed";
+
+export interface LedgerEntry {
+  timestamp: string;
+  operation: string;
+  status: LedgerStatus;
+  confirmationNumber: string | null;
+  formState?: FormState;
+  confirmation?: Record<string, any>;
+  screenshots: Record<string, string>;
+  message?: string;
+}
+
+export interface LedgerFilter {
+  /** Earliest collection date to include (YYYY-MM-DD, inclusive) */
+  from?: string;
+  /** Latest collection date to include (YYYY-MM-DD, inclusive) */
+  to?: string;
+  status?: LedgerStatus;
+  confirmation?: string;
+  limit?: number;
+}
+
+/** Appends one entry to the ledger, creating the file and its directory if needed. */
+export function appendLedgerEntry(path: string, entry: LedgerEntry): void {
+  const dir = dirname(path);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+  appendFileSync(path, JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Reads ledger entries matching the filter, newest first.
+ *
+ * Date filters apply to the collection date, falling back to the day
+ * the attempt was made when no form state was recorded.
+ */
+export function readLedger(path: string, filter: LedgerFilter = {}): LedgerEntry[] {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  const entries: LedgerEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip partially written lines
+    }
+  }
+
+  const matches = entries.filter((entry) => {
+    const day = entry.formState?.date || entry.timestamp.split("T")[0];
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.status && entry.status !== filter.status) return false;
+    if (filter.confirmation && entry.confirmationNumber?.toUpperCase() !== filter.confirmation.toUpperCase()) {
+      return false;
+    }
+    return true;
+  });
+
+  matches.reverse();
+  return filter.limit ? matches.slice(0, filter.limit) : matches;
+}
+
+type CollectionMatch = { date: string; address: string; postalCode: string };
+
+// Whether an entry is for the collection on that date at that address
+function sameCollection(entry: LedgerEntry, match: CollectionMatch): boolean {
+  const normalize = (value?: string) => (value || "").replace(/\s+/g, "").toLowerCase();
+  return entry.formState?.date === match.date &&
+    normalize(entry.formState.postalCode) === normalize(match.postalCode) &&
+    normalize(entry.formState.address) === normalize(match.address);
+}
+
+/**
+ * Finds collections already booked for a date and address that have not
+ * since been cancelled. Unconfirmed attempts count, since UPS may still
+ * have scheduled them.
+ */
+export function findActiveBookings(path: string, match: CollectionMatch): LedgerEntry[] {
+  const entries = readLedger(path, { from: match.date, to: match.date });
+
+  const cancelled = new Set(
+    entries
+      .filter((entry) => entry.status === "cancelled" && entry.confirmationNumber)
+      .map((entry) => entry.confirmationNumber!.toUpperCase())
+  );
+
+  return entries.filter((entry) =>
+    (entry.status === "booked" || entry.status === "unconfirmed") &&
+    sameCollection(entry, match) &&
+    !(entry.confirmationNumber && cancelled.has(entry.confirmationNumber.toUpperCase()))
+  );
+}
+
+/** Finds cancellations of collections booked for a date and address, newest first. */
+export function findCancelledBookings(path: string, match: CollectionMatch): LedgerEntry[] {
+  return readLedger(path, { from: match.date, to: match.date, status: "cancelled" })
+    .filter((entry) => sameCollection(entry, match));
+}
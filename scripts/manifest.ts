@@ -0,0 +1,184 @@
+/**
+ * Parcel Manifests
+ *
+ * A manifest lists each parcel in a collection, so the package count and
+ * total weight come from the parcels instead of being typed in, and
+ * parcels UPS will not take are caught before the portal is opened.
+ *
+ * JSON: an array of parcels, or {"parcels": [...]}, each
+ *   {"weight": 12.5, "length": 60, "width": 40, "height": 40, "reference": "PO-1", "quantity": 2}
+ * CSV: a header row naming the same columns, then one row per parcel
+ *
+ * Weights are in kg and dimensions in cm. weight is required; length,
+ * width and height are given together or not at all; quantity repeats
+ * the row (default 1).
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { UPSError } from "./errors.js";
+
+// UPS limits per parcel (UK): 70 kg, 274 cm long, 400 cm length plus girth
+export const PARCEL_LIMITS = { weight: 70, length: 274, lengthPlusGirth: 400 };
+// 70 lb: parcels over this need a heavy-package label
+export const HEAVY_PARCEL_KG = 31.75;
+
+export interface Parcel {
+  /** kg */
+  weight: number;
+  /** cm */
+  length?: number;
+  width?: number;
+  height?: number;
+  reference?: string;
+}
+
+/** A manifest as read, with its totals; echoed in FormState. */
+export interface Manifest {
+  /** File the manifest was read from */
+  source: string;
+  parcels: Parcel[];
+  packages: number;
+  /** Sum of parcel weights in kg (the form gets this rounded up) */
+  totalWeight: number;
+}
+
+const COLUMNS = ["weight", "length", "width", "height", "reference", "quantity"];
+
+// Longest side, and length plus girth (twice the other two sides)
+function measure(parcel: Parcel): { length: number; lengthPlusGirth: number } | null {
+  if (parcel.length === undefined || parcel.width === undefined || parcel.height === undefined) {
+    return null;
+  }
+  const [length, width, height] = [parcel.length, parcel.width, parcel.height].sort((a, b) => b - a);
+  return { length, lengthPlusGirth: length + 2 * (width + height) };
+}
+
+function parseCsv(text: string): Record<string, string>[] {
+  const [header, ...rows] = text.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith("#"));
+  if (!header) {
+    return [];
+  }
+  const columns = header.split(",").map((column) => column.trim().replace(/^"|"$/g, "").toLowerCase());
+  const unknown = columns.filter((column) => !COLUMNS.includes(column));
+  if (unknown.length > 0) {
+    throw new Error(`unknown column(s) ${unknown.join(", ")} (expected ${COLUMNS.join(", ")})`);
+  }
+  return rows.map((row) => {
+    const values = row.split(",").map((value) => value.trim().replace(/^"|"$/g, ""));
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+  });
+}
+
+function parseJson(text: string): Record<string, unknown>[] {
+  const json = JSON.parse(text);
+  const rows = Array.isArray(json) ? json : json?.parcels;
+  if (!Array.isArray(rows)) {
+    throw new Error('expected an array of parcels or {"parcels": [...]}');
+  }
+  return rows;
+}
+
+// Reads one row into parcels (repeated by quantity), adding any problems
+function toParcels(row: Record<string, unknown>, label: string, problems: string[]): Parcel[] {
+  const blank = (key: string) => row[key] === undefined || row[key] === null || row[key] === "";
+  const number = (key: string): number | undefined => {
+    const value = row[key];
+    if (blank(key)) {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      problems.push(`${label}: ${key} must be a positive number (got "${value}")`);
+      return undefined;
+    }
+    return parsed;
+  };
+
+  if (blank("weight")) {
+    problems.push(`${label}: weight is required`);
+  }
+  const weight = number("weight");
+  const dimensions = ["length", "width", "height"].map(number);
+  const given = dimensions.filter((value) => value !== undefined).length;
+  if (given > 0 && given < 3) {
+    problems.push(`${label}: give length, width and height together`);
+  }
+  const quantity = number("quantity") ?? 1;
+  if (!Number.isInteger(quantity)) {
+    problems.push(`${label}: quantity must be a whole number`);
+  }
+  if (weight === undefined || !Number.isInteger(quantity)) {
+    return [];
+  }
+
+  const parcel: Parcel = { weight };
+  if (given === 3) {
+    [parcel.length, parcel.width, parcel.height] = dimensions as number[];
+  }
+  if (row.reference) {
+    parcel.reference = String(row.reference);
+  }
+  return Array.from({ length: quantity }, () => ({ ...parcel }));
+}
+
+/**
+ * Reads a JSON or CSV manifest (by extension; anything but .csv is read
+ * as JSON) and totals it.
+ *
+ * @throws UPSError INVALID_INPUT with problems when the file cannot be read or a row is invalid
+ */
+export function readManifest(path: string): Manifest {
+  let rows: Record<string, unknown>[];
+  try {
+    const text = readFileSync(path, "utf-8");
+    rows = extname(path).toLowerCase() === ".csv" ? parseCsv(text) : parseJson(text);
+  } catch (error: any) {
+    throw new UPSError("INVALID_INPUT", `Cannot read manifest ${path}: ${error.message}`);
+  }
+
+  const problems: string[] = [];
+  const parcels = rows.flatMap((row, i) => toParcels(row ?? {}, `Manifest row ${i + 1}`, problems));
+  if (problems.length === 0 && parcels.length === 0) {
+    problems.push("Manifest lists no parcels");
+  }
+  if (problems.length > 0) {
+    throw new UPSError("INVALID_INPUT", `Invalid manifest ${path}: ${problems.join("; ")}`, { problems });
+  }
+
+  return {
+    source: path,
+    parcels,
+    packages: parcels.length,
+    totalWeight: Math.round(parcels.reduce((sum, parcel) => sum + parcel.weight, 0) * 100) / 100,
+  };
+}
+
+/**
+ * Checks each parcel against the UPS limits.
+ *
+ * Problems are parcels UPS will refuse; warnings are parcels that need a
+ * heavy-package label.
+ */
+export function checkParcels(parcels: Parcel[]): { problems: string[]; warnings: string[] } {
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  parcels.forEach((parcel, i) => {
+    const name = `Parcel ${i + 1}${parcel.reference ? ` (${parcel.reference})` : ""}`;
+    if (parcel.weight > PARCEL_LIMITS.weight) {
+      problems.push(`${name} weighs ${parcel.weight} kg, over the UPS limit of ${PARCEL_LIMITS.weight} kg`);
+    } else if (parcel.weight > HEAVY_PARCEL_KG) {
+      warnings.push(`${name} weighs ${parcel.weight} kg and needs a heavy-package label`);
+    }
+    const size = measure(parcel);
+    if (size && size.length > PARCEL_LIMITS.length) {
+      problems.push(`${name} is ${size.length} cm long, over the UPS limit of ${PARCEL_LIMITS.length} cm`);
+    }
+    if (size && size.lengthPlusGirth > PARCEL_LIMITS.lengthPlusGirth) {
+      problems.push(
+        `${name} measures ${size.lengthPlusGirth} cm in length plus girth, over the UPS limit of ${PARCEL_LIMITS.lengthPlusGirth} cm`
+      );
+    }
+  });
+  return { problems, warnings };
+}
@@ -0,0 +1,461 @@
+/**
+ * UPS Pickup API Booking Driver
+ *
+ * Books collections through the UPS developer Pickup API instead of the
+ * web interface. Authenticates with OAuth client credentials and uses
+ * the pickup rate, creation, pending-status and cancel endpoints.
+ *
+ * fillForm() rates the pickup so the user can review it, submit() creates
+ * it. The base URL is configurable (api.baseUrl) so the driver can be
+ * pointed at a local mock server.
+ */
+
+import { clearSession, readSession, transitionSession } from "./session.js";
+import { UPSError, errorResult, toErrorResult } from "./errors.js";
+import { HEAVY_PARCEL_KG } from "./manifest.js";
+import type { RetryRecord } from "./retry.js";
+import type { BookingDriver, Config, FormState, PickupApiConfig, PlanOperation, RunOptions, ScreenshotOptions } from "./types.js";
+
+const DEFAULT_BASE_URL = "https://onlinetools.ups.com";
+const DEFAULT_VERSION = "v2409";
+const DEFAULT_COUNTRY_CODE = "GB";
+const DEFAULT_TIMEOUT_SECONDS = 30;
+// How much of a non-JSON error page to quote
+const BODY_EXCERPT_LENGTH = 200;
+
+export class PickupApiDriver implements BookingDriver {
+  readonly name = "api" as const;
+  private config: Config;
+  private api: PickupApiConfig;
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(config: Config) {
+    if (!config.api?.clientId || !config.api?.clientSecret) {
+      throw new UPSError("CONFIG_INVALID", 'The "api" driver requires api.clientId and api.clientSecret in config.json');
+    }
+    this.config = config;
+    this.api = config.api;
+  }
+
+  // ============================================
+  // INTERNAL
+  // ============================================
+
+  private get baseUrl(): string {
+    return (this.api.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  private get version(): string {
+    return this.api.version || DEFAULT_VERSION;
+  }
+
+  private get countryCode(): string {
+    return this.api.countryCode || DEFAULT_COUNTRY_CODE;
+  }
+
+  /**
+   * Sends a request with the configured timeout, so a stalled call cannot
+   * hold the session lock indefinitely.
+   *
+   * @param changesPickup - The call creates or cancels a pickup, which may
+   *   have happened even though UPS never answered
+   */
+  private async send(url: string, init: RequestInit, what: string, changesPickup = false): Promise<Response> {
+    const timeoutSeconds = this.api.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+    try {
+      return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutSeconds * 1000) });
+    } catch (error: any) {
+      if (error.name === "TimeoutError") {
+        const caveat = changesPickup ? "; it may still have gone through, so check pending pickups before retrying" : "";
+        throw new UPSError("API_REQUEST_FAILED", `${what} got no answer within ${timeoutSeconds}s${caveat}`);
+      }
+      throw new UPSError("API_REQUEST_FAILED", `${what} failed: ${error.message}`);
+    }
+  }
+
+  /** Fetches (or reuses) an OAuth access token using client credentials. */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const credentials = Buffer.from(`${this.api.clientId}:${this.api.clientSecret}`).toString("base64");
+    const response = await this.send(
+      `${this.baseUrl}/security/v1/oauth/token`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
+      },
+      "OAuth token request"
+    );
+
+    const text = await response.text();
+    if (!response.ok) {
+      const code = response.status === 401 || response.status === 403 ? "CREDENTIALS_REJECTED" : "API_REQUEST_FAILED";
+      throw new UPSError(code, `OAuth token request failed: ${response.status} ${text.slice(0, BODY_EXCERPT_LENGTH)}`);
+    }
+
+    let token: { access_token?: string; expires_in?: string | number };
+    try {
+      token = JSON.parse(text);
+    } catch {
+      throw new UPSError("API_REQUEST_FAILED", `OAuth token request returned ${response.status} without JSON: ${text.slice(0, BODY_EXCERPT_LENGTH)}`);
+    }
+    if (!token.access_token) {
+      throw new UPSError("API_REQUEST_FAILED", "OAuth token response has no access_token");
+    }
+    this.accessToken = token.access_token;
+    // Refresh a minute early to avoid using a token as it expires
+    this.tokenExpiresAt = Date.now() + (Number(token.expires_in || 3600) - 60) * 1000;
+    return this.accessToken;
+  }
+
+  private async request(method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<any> {
+    const token = await this.getAccessToken();
+    const response = await this.send(
+      `${this.baseUrl}/api${path}`,
+      {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+          transId: `ups-cli-${Date.now()}`,
+          transactionSrc: "ups-collection-manager",
+          ...headers,
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      },
+      `UPS API ${method} ${path}`,
+      method === "DELETE" || path.startsWith("/pickupcreation/")
+    );
+
+    // Gateway and firewall pages are HTML or plain text, so parse only after checking the status
+    const text = await response.text();
+    let data: any;
+    try {
+      data = text ? JSON.parse(text) : {};
+    } catch {
+      data = null;
+    }
+    if (!response.ok) {
+      const apiErrors = data?.response?.errors as Array<{ code: string; message: string }> | undefined;
+      const detail = apiErrors?.map((e) => `${e.code}: ${e.message}`).join("; ") || text.slice(0, BODY_EXCERPT_LENGTH);
+      throw new UPSError("API_REQUEST_FAILED", `UPS API ${method} ${path} failed (${response.status}): ${detail}`);
+    }
+    if (data === null) {
+      throw new UPSError("API_REQUEST_FAILED", `UPS API ${method} ${path} returned ${response.status} without JSON: ${text.slice(0, BODY_EXCERPT_LENGTH)}`);
+    }
+    return data;
+  }
+
+  /** Builds the address and date blocks shared by the rate and creation requests. */
+  private pickupDetails(formState: FormState) {
+    const toHHMM = (time: string) => time.replace(":", "").padStart(4, "0");
+    return {
+      PickupDateInfo: {
+        ReadyTime: toHHMM(formState.earliestTime),
+        CloseTime: toHHMM(formState.latestTime),
+        PickupDate: formState.date.replace(/-/g, ""),
+      },
+      PickupAddress: {
+        CompanyName: formState.company,
+        ContactName: formState.company,
+        AddressLine: formState.address,
+        City: formState.city,
+        PostalCode: formState.postalCode,
+        CountryCode: this.countryCode,
+        ResidentialIndicator: "N",
+        PickupPoint: formState.collectFrom,
+        Phone: { Number: formState.telephone },
+      },
+      AlternateAddressIndicator: "Y",
+    };
+  }
+
+  private async ratePickup(formState: FormState): Promise<Record<string, any>> {
+    const data = await this.request("POST", `/shipments/${this.version}/pickup/oncall`, {
+      PickupRateRequest: {
+        ...this.pickupDetails(formState),
+        ServiceDateOption: "03",
+      },
+    });
+    const rate = data?.PickupRateResponse?.RateResult || {};
+    return {
+      totalCharges: rate.GrandTotalOfAllCharge
+        ? `${rate.GrandTotalOfAllCharge} ${rate.CurrencyCode || ""}`.trim()
+        : null,
+      rateResult: rate,
+    };
+  }
+
+  private async createPickup(formState: FormState): Promise<Record<string, any>> {
+    const data = await this.request("POST", `/pickupcreation/${this.version}/pickup`, {
+      PickupCreationRequest: {
+        RatePickupIndicator: "Y",
+        Shipper: {
+          Account: {
+            AccountNumber: formState.paymentAccount,
+            AccountCountryCode: this.countryCode,
+          },
+        },
+        ...this.pickupDetails(formState),
+        PickupPiece: [
+          {
+            ServiceCode: "011",
+            Quantity: String(formState.packages),
+            DestinationCountryCode: this.countryCode,
+            ContainerCode: "01",
+          },
+        ],
+        TotalWeight: {
+          Weight: String(formState.weight),
+          UnitOfMeasurement: "KGS",
+        },
+        OverweightIndicator: formState.manifest?.parcels.some((parcel) => parcel.weight > HEAVY_PARCEL_KG) ? "Y" : "N",
+        PaymentMethod: "01",
+        SpecialInstruction: formState.specialInstructions,
+        Notification: {
+          ConfirmationEmailAddress: formState.email,
+        },
+      },
+    });
+
+    const response = data?.PickupCreationResponse || {};
+    const rate = response.RateResult || {};
+    return {
+      confirmationNumber: response.PRN || null,
+      totalCharges: rate.GrandTotalOfAllCharge
+        ? `${rate.GrandTotalOfAllCharge} ${rate.CurrencyCode || ""}`.trim()
+        : null,
+      collectionDate: formState.date,
+    };
+  }
+
+  // ============================================
+  // COLLECTION OPERATIONS
+  // ============================================
+
+  /**
+   * Rates the collection so it can be reviewed before submit().
+   *
+   * @param formState - Resolved collection details and profile address
+   * @returns Result with form state and quoted charges
+   */
+  async fillForm(formState: FormState): Promise<any> {
+    try {
+      const rate = await this.ratePickup(formState);
+      transitionSession("form-filled", { driver: this.name, formState });
+      return {
+        success: true,
+        screenshot: null,
+        formState,
+        // Nothing is typed into a page, so there is nothing to read back
+        verification: null,
+        rate,
+        message: "Collection rated successfully. Please review the details before calling submit.",
+      };
+    } catch (error: any) {
+      return toErrorResult(error, "API_REQUEST_FAILED", "Form fill error", { screenshot: null });
+    }
+  }
+
+  /**
+   * Creates the pickup prepared by fillForm().
+   *
+   * @param formState - Form state from fillForm(), read from the session if omitted
+   * @returns Result with confirmation details
+   */
+  async submit(formState?: FormState): Promise<any> {
+    const pending = formState || readSession()?.formState;
+    if (!pending) {
+      return errorResult("FORM_NOT_FILLED", "Form has not been filled yet. Call fill-form first.");
+    }
+
+    try {
+      const confirmation = await this.createPickup(pending);
+      if (!confirmation.confirmationNumber) {
+        return errorResult("CONFIRMATION_NOT_PARSED", "UPS accepted the pickup but returned no PRN.", {
+          screenshot: null,
+          confirmation,
+        });
+      }
+      return {
+        success: true,
+        screenshot: null,
+        reviewScreenshot: null,
+        confirmation,
+        message: "Collection submitted successfully.",
+      };
+    } catch (error: any) {
+      return toErrorResult(error, "API_REQUEST_FAILED", "Submit failed", { screenshot: null });
+    }
+  }
+
+  /**
+   * Rates and creates a collection in one operation.
+   *
+   * @param formState - Resolved collection details (same as fillForm)
+   * @returns Result with booking details
+   */
+  async book(formState: FormState): Promise<any> {
+    const fillResult = await this.fillForm(formState);
+    if (fillResult.error) {
+      return fillResult;
+    }
+
+    try {
+      const confirmation = await this.createPickup(formState);
+      if (!confirmation.confirmationNumber) {
+        return errorResult("CONFIRMATION_NOT_PARSED", "UPS accepted the pickup but returned no PRN.", {
+          confirmationScreenshot: null,
+          formState,
+          confirmation,
+        });
+      }
+      return {
+        success: true,
+        fillScreenshot: null,
+        reviewScreenshot: null,
+        confirmationScreenshot: null,
+        formState,
+        confirmation,
+        message: "Collection booked successfully.",
+      };
+    } catch (error: any) {
+      return toErrorResult(error, "API_REQUEST_FAILED", "Booking failed during submit", {
+        fillScreenshot: null,
+        errorScreenshot: null,
+      });
+    }
+  }
+
+  /**
+   * Describes the API calls fillForm() or book() would make, without making them.
+   *
+   * @param formState - Resolved collection details
+   * @param operation - "fill-form" or "book"
+   * @returns Human-readable steps in order
+   */
+  plan(formState: FormState, operation: PlanOperation): string[] {
+    const steps = [
+      `Request an OAuth token from ${this.baseUrl}/security/v1/oauth/token`,
+      `Rate the pickup: POST ${this.baseUrl}/api/shipments/${this.version}/pickup/oncall ` +
+        `(${formState.date} ${formState.earliestTime}–${formState.latestTime}, ${formState.address}, ${formState.postalCode})`,
+    ];
+
+    if (operation === "book") {
+      steps.push(
+        `Create the pickup: POST ${this.baseUrl}/api/pickupcreation/${this.version}/pickup ` +
+          `(${formState.packages} package(s), ${formState.weight} kg, account ${formState.paymentAccount})`
+      );
+    } else {
+      steps.push("Stop for review; run submit to create the pickup");
+    }
+    return steps;
+  }
+
+  // ============================================
+  // CANCELLATION
+  // ============================================
+
+  /**
+   * Previews or cancels a pickup by its PRN (confirmation number).
+   *
+   * The preview looks the PRN up in the pending pickups of the account
+   * it was booked on, or the default profile's account if unknown.
+   *
+   * @param confirmationNumber - Pickup request number
+   * @param confirm - Actually cancel rather than preview
+   * @param formState - Form state recorded when the pickup was booked, if any
+   * @returns Result with pickup details and cancellation outcome
+   */
+  async cancel(confirmationNumber: string, confirm: boolean, formState?: FormState): Promise<any> {
+    try {
+      if (!confirm) {
+        const profiles = this.config.profiles || {};
+        const defaultProfile = profiles[this.config.defaultProfile || Object.keys(profiles)[0]];
+        const pending = await this.request("GET", `/shipments/${this.version}/pickup/oncall`, undefined, {
+          AccountNumber: formState?.paymentAccount || defaultProfile?.paymentAccount || "",
+        });
+        const statuses = pending?.PickupPendingStatusResponse?.PendingStatus;
+        const list: any[] = Array.isArray(statuses) ? statuses : statuses ? [statuses] : [];
+        const match = list.find((p) => p.PRN === confirmationNumber);
+        if (!match) {
+          return errorResult("BOOKING_NOT_FOUND", `No scheduled collection found with confirmation number ${confirmationNumber}.`, {
+            screenshot: null,
+          });
+        }
+
+        return {
+          success: true,
+          stage: "preview",
+          confirmationNumber,
+          pickup: { summary: JSON.stringify(match) },
+          screenshot: null,
+          message: "Collection found. Please review before calling cancel again with --confirm.",
+        };
+      }
+
+      const data = await this.request("DELETE", `/shipments/${this.version}/pickup/02`, undefined, {
+        Prn: confirmationNumber,
+      });
+      const status = data?.PickupCancelResponse?.Response?.ResponseStatus;
+      if (status?.Code !== "1") {
+        return errorResult("CANCEL_FAILED", "UPS did not confirm the cancellation.", { confirmationNumber, screenshot: null });
+      }
+
+      return {
+        success: true,
+        stage: "cancelled",
+        confirmationNumber,
+        pickup: { summary: JSON.stringify(data.PickupCancelResponse) },
+        screenshot: null,
+        message: `Collection ${confirmationNumber} cancelled.`,
+      };
+    } catch (error: any) {
+      return toErrorResult(error, "CANCEL_FAILED", "Cancel failed", { confirmationNumber, screenshot: null });
+    }
+  }
+
+  // ============================================
+  // SCREENSHOT / SESSION
+  // ============================================
+
+  async takeScreenshot(_options?: ScreenshotOptions): Promise<any> {
+    return errorResult("NOT_SUPPORTED", 'Screenshots are not available with the "api" driver.');
+  }
+
+  saveSelectorHealth(): null {
+    return null;
+  }
+
+  // Nothing to trace without a browser; --trace is ignored
+  startRun(_options: RunOptions): void {}
+
+  launchProfile(): null {
+    return null;
+  }
+
+  retries(): RetryRecord[] {
+    return [];
+  }
+
+  async finishRun(): Promise<null> {
+    return null;
+  }
+
+  async reset(): Promise<any> {
+    this.accessToken = null;
+    this.tokenExpiresAt = 0;
+    clearSession();
+    return {
+      success: true,
+      message: "API session cleared.",
+    };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Retry Policy
+ *
+ * The browser driver retries its flaky steps (a slow page load, a late
+ * password field, a "Next" click that does nothing) instead of failing the
+ * whole command. A step is retried only when its error code is listed in
+ * the policy's retryOn; everything else fails at once.
+ *
+ * Steps:
+ * - navigation: page.goto
+ * - login: the whole login, from the login page to the landing page
+ * - fill: opening the collection form and filling it
+ * - review: moving from the form to the review page
+ * - submit: finding the Schedule button (the click itself is never repeated)
+ *
+ * Set "retry" in config.json to change the policy; "retry.steps" overrides
+ * it per step. Every retry is recorded and returned in the command result.
+ */
+
+import { ErrorCode, errorCodeOf } from "./errors.js";
+
+export type RetryStep = "navigation" | "login" | "fill" | "review" | "submit";
+
+export interface RetryPolicy {
+  /** Total tries, including the first */
+  attempts: number;
+  /** Wait before the first retry; doubles for each one after */
+  backoffMs: number;
+  /** Longest wait between tries */
+  maxBackoffMs: number;
+  /** Error codes worth another try */
+  retryOn: ErrorCode[];
+}
+
+/** "retry" in config.json. */
+export interface RetryConfig extends Partial<RetryPolicy> {
+  steps?: Partial<Record<RetryStep, Partial<RetryPolicy>>>;
+}
+
+/** One failed try that was retried. */
+export interface RetryRecord {
+  step: RetryStep;
+  /** The try that failed, from 1 */
+  attempt: number;
+  code: ErrorCode;
+  message: string;
+  /** Wait before the next try */
+  delayMs: number;
+  at: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  backoffMs: 2000,
+  maxBackoffMs: 15000,
+  retryOn: ["PAGE_TIMEOUT", "LOGIN_FIELD_MISSING", "FORM_FIELD_NOT_FOUND", "SUBMIT_BUTTON_NOT_FOUND"],
+};
+
+/** The policy for a step: defaults, then "retry", then "retry.steps.<step>". */
+export function retryPolicy(config: RetryConfig = {}, step: RetryStep): RetryPolicy {
+  const { steps, ...global } = config;
+  return { ...DEFAULT_RETRY_POLICY, ...global, ...steps?.[step] };
+}
+
+/** Wait after the given failed try (exponential, capped). */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.backoffMs * 2 ** (attempt - 1), policy.maxBackoffMs);
+}
+
+/**
+ * Runs an operation, retrying it under the policy.
+ *
+ * @param step - Step name recorded with each retry
+ * @param policy - How often and on which errors to retry
+ * @param operation - The step; receives the try number, from 1
+ * @param log - Retries are appended here
+ * @param sleep - Waits between tries (replaced in tests)
+ * @throws The last error once the tries run out, or the first one not worth retrying
+ */
+export async function withRetry<T>(
+  step: RetryStep,
+  policy: RetryPolicy,
+  operation: (attempt: number) => Promise<T>,
+  log: RetryRecord[],
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      const code = errorCodeOf(error);
+      if (attempt >= policy.attempts || !policy.retryOn.includes(code)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(policy, attempt);
+      log.push({
+        step,
+        attempt,
+        code,
+        message: error instanceof Error ? error.message : String(error),
+        delayMs,
+        at: new Date().toISOString(),
+      });
+      await sleep(delayMs);
+    }
+  }
+}
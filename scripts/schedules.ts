@@ -0,0 +1,122 @@
+/**
+ * Recurring Collection Schedules
+ *
+ * Rules under "schedules" in config.json describe collections we book
+ * every week, e.g. Monday to Friday, 2 packages, 20 kg, 13:00-18:00 from
+ * the warehouse profile. run-schedule books the next slot of each rule
+ * through the normal book() flow.
+ *
+ * A rule's slot is the first of its weekdays, from today, that the
+ * collection calendar allows: today only before the cutoff, never a bank
+ * holiday or closure. Days passed over on the way are reported as skipped.
+ */
+
+import { CollectionCalendar, SkippedDay, addDays, londonNow, weekdayOf } from "./collection-calendar.js";
+import type { FillFormOptions } from "./types.js";
+
+// Safety limit when searching forward for a rule's next day
+const MAX_LOOKAHEAD_DAYS = 366;
+
+/** One recurring collection; an entry in "schedules" in config.json. */
+export interface ScheduleRule {
+  /** Days to collect, 0 = Sunday … 6 = Saturday */
+  weekdays: number[];
+  /** Collection profile (default: defaultProfile) */
+  profile?: string;
+  packages?: number;
+  weight?: number;
+  earliestTime?: string;
+  latestTime?: string;
+  doorCode?: string;
+  specialInstructions?: string;
+  /** Set to false to pause the rule */
+  enabled?: boolean;
+}
+
+export type ScheduleStatus = "booked" | "skipped" | "failed" | "due";
+
+/** What run-schedule did (or, in a dry run, would do) for one rule and day. */
+export interface ScheduleOutcome {
+  schedule: string;
+  date: string | null;
+  status: ScheduleStatus;
+  reason: string;
+  confirmationNumber?: string | null;
+  code?: string;
+}
+
+/**
+ * Finds a rule's next collection day.
+ *
+ * @returns The day (null if none within a year) and the rule's days passed over, with reasons
+ */
+export function nextSlot(
+  rule: ScheduleRule,
+  calendar: CollectionCalendar,
+  now: Date = new Date()
+): { date: string | null; passedOver: SkippedDay[] } {
+  const passedOver: SkippedDay[] = [];
+  let candidate = londonNow(now).date;
+  if (calendar.isPastCutoff(now)) {
+    if (rule.weekdays.includes(weekdayOf(candidate))) {
+      passedOver.push({ date: candidate, reason: `Past the ${calendar.cutoff} same-day cutoff` });
+    }
+    candidate = addDays(candidate, 1);
+  }
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++, candidate = addDays(candidate, 1)) {
+    if (!rule.weekdays.includes(weekdayOf(candidate))) {
+      continue;
+    }
+    const reason = calendar.skipReason(candidate);
+    if (!reason) {
+      return { date: candidate, passedOver };
+    }
+    passedOver.push({ date: candidate, reason });
+  }
+  return { date: null, passedOver };
+}
+
+/** Booking options for a rule's collection on a date. */
+export function scheduleOptions(rule: ScheduleRule, date: string): FillFormOptions {
+  return {
+    profile: rule.profile,
+    date,
+    packages: rule.packages,
+    weight: rule.weight,
+    earliestTime: rule.earliestTime,
+    latestTime: rule.latestTime,
+    doorCode: rule.doorCode,
+    specialInstructions: rule.specialInstructions,
+  };
+}
+
+/**
+ * Reads a book() result as a schedule outcome. A collection already in
+ * the ledger (booked or unconfirmed) counts as skipped, which is what
+ * makes run-schedule safe to repeat.
+ */
+export function scheduleOutcome(schedule: string, date: string, result: any): ScheduleOutcome {
+  if (result.dryRun && result.success) {
+    return { schedule, date, status: "due", reason: "Not booked yet; would book now" };
+  }
+  if (result.success) {
+    return {
+      schedule,
+      date,
+      status: "booked",
+      reason: result.message,
+      confirmationNumber: result.confirmation?.confirmationNumber ?? null,
+    };
+  }
+  if (result.code === "ALREADY_BOOKED") {
+    return {
+      schedule,
+      date,
+      status: "skipped",
+      reason: "Already booked",
+      confirmationNumber: result.existing?.[0]?.confirmationNumber ?? result.alreadyBooked?.[0]?.confirmationNumber ?? null,
+    };
+  }
+  return { schedule, date, status: "failed", reason: result.message, code: result.code };
+}
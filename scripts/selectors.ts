@@ -0,0 +1,248 @@
+/**
+ * UPS Selector Registry
+ *
+ * Every locator the browser driver uses, grouped by step and listed in
+ * fallback order: the first entry is what UPS serves today, later entries
+ * are older or looser matches. Any step or field can be replaced from
+ * "selectors" in config.json without a rebuild.
+ *
+ * Bump SELECTORS_VERSION whenever the defaults change so health reports
+ * can be compared across releases.
+ */
+
+import { writeFileSync } from "fs";
+
+export const SELECTORS_VERSION = "2026.10.4";
+
+export const DEFAULT_STEP_SELECTORS = {
+  /** Cookie consent accept buttons (OneTrust and generic) */
+  cookieAccept: [
+    "#onetrust-accept-btn-handler",
+    "#accept-recommended-btn-handler",
+    'button[id*="accept"]',
+    'button:has-text("Accept All")',
+    'button:has-text("Accept Cookies")',
+    'button:has-text("Accept")',
+    'button:has-text("I Agree")',
+    'button:has-text("Got it")',
+  ],
+  /** Username/email field on the Auth0-style login page */
+  loginUsername: [
+    'input[name="username"]',
+    'input[id="username"]',
+    'input[type="email"]',
+    'input[name="email"]',
+    "#email",
+    'input[id*="email"]',
+    'input[placeholder*="email" i]',
+    'input[placeholder*="username" i]',
+  ],
+  /** Continue button after the username step */
+  loginContinue: [
+    'button[type="submit"]',
+    'button:has-text("Continue")',
+    'button:has-text("Next")',
+    'input[type="submit"]',
+  ],
+  loginPassword: [
+    'input[type="password"]',
+    'input[name="password"]',
+    "#password",
+    'input[id*="password"]',
+  ],
+  loginSubmit: [
+    'button[type="submit"]',
+    'input[type="submit"]',
+    'button:has-text("Log In")',
+    'button:has-text("Sign In")',
+    'button:has-text("Continue")',
+  ],
+  /** One-time code field on the "verify it's you" step */
+  verificationCode: [
+    'input[autocomplete="one-time-code"]',
+    'input[name="code"]',
+    'input[name*="otp" i]',
+    'input[id*="verification" i]',
+    'input[id*="code" i][inputmode="numeric"]',
+  ],
+  verificationSubmit: [
+    'button[type="submit"]',
+    'button:has-text("Verify")',
+    'button:has-text("Continue")',
+    'button:has-text("Submit")',
+  ],
+  /** Any of these appearing means we are logged in */
+  loginSuccess: [
+    '[aria-label*="account"]',
+    '[aria-label*="user"]',
+    ".user-menu",
+    '[data-testid*="account"]',
+  ],
+  /** "A different collection address" radio button */
+  differentAddress: [
+    'input[type="radio"][value="NEW"]',
+    'input[type="radio"][id*="different"]',
+    'input[type="radio"][id*="new"]',
+    'label:has-text("different collection address") input[type="radio"]',
+    'label:has-text("A different collection") input[type="radio"]',
+  ],
+  /** Next button from the collection form to the review page */
+  formNext: [
+    'button.ups-cta_primary:has-text("Next")',
+    'button[class*="primary"]:has-text("Next")',
+    "#btnNext",
+    'button:has-text("Next")',
+    'button:has-text("Continue")',
+    'button:has-text("Review")',
+  ],
+  /** Final Schedule button on the review page */
+  scheduleButton: [
+    'button.ups-cta_primary:has-text("Schedule")',
+    'button[class*="primary"]:has-text("Schedule")',
+    'button:has-text("Schedule Pickup")',
+    "#btnSubmit",
+    'button:has-text("Submit")',
+    'button:has-text("Confirm")',
+  ],
+  /** Cancel button on the pickup details page */
+  cancelButton: [
+    'button:has-text("Cancel Pickup")',
+    'button:has-text("Cancel Collection")',
+    'a:has-text("Cancel Pickup")',
+    'a:has-text("Cancel Collection")',
+    "#btnCancelPickup",
+    'button:has-text("Cancel")',
+  ],
+  /** Confirmation button in the cancel modal */
+  cancelConfirm: [
+    '[role="dialog"] button:has-text("Yes")',
+    '[role="dialog"] button:has-text("Cancel Pickup")',
+    '[role="dialog"] button:has-text("Confirm")',
+    'button:has-text("Yes")',
+    'button:has-text("Confirm")',
+  ],
+};
+
+/**
+ * Label variants for each form field. The driver tries each label against
+ * aria-label, placeholder, <label> text and name attributes in turn.
+ */
+export const DEFAULT_FIELD_LABELS = {
+  company: ["Company", "Company Name", "company"],
+  address: ["Address Line 1", "Address", "Street Address", "addressLine1"],
+  city: ["City", "Town", "city"],
+  postalCode: ["Postal Code", "Postcode", "ZIP", "postalCode"],
+  telephone: ["Telephone", "Phone", "Contact Number", "telephone"],
+  packages: ["Package", "Packages", "Number of Packages"],
+  weight: ["Weight", "Total Weight"],
+  specialInstructions: ["Special Instructions", "Instructions", "Notes"],
+  collectFrom: ["Preferred Collection Location", "Collect From", "Collection Location"],
+  paymentAccount: ["Payment Account", "Account Number", "Bill To"],
+  email: ["Email", "Notification Email", "email"],
+};
+
+export type SelectorStep = keyof typeof DEFAULT_STEP_SELECTORS;
+export type FieldName = keyof typeof DEFAULT_FIELD_LABELS;
+
+export interface SelectorOverrides {
+  steps?: Partial<Record<SelectorStep, string[]>>;
+  fields?: Partial<Record<FieldName, string[]>>;
+}
+
+export interface SelectorRegistry {
+  /** SELECTORS_VERSION, suffixed with "+config" when config overrides apply */
+  version: string;
+  steps: Record<SelectorStep, string[]>;
+  fields: Record<FieldName, string[]>;
+  /** Steps and fields replaced from config.json */
+  overridden: string[];
+}
+
+/** Merges config.json overrides over the built-in selectors. */
+export function resolveSelectors(overrides: SelectorOverrides = {}): SelectorRegistry {
+  const overridden = [
+    ...Object.keys(overrides.steps || {}),
+    ...Object.keys(overrides.fields || {}).map((field) => `field.${field}`),
+  ];
+  return {
+    version: overridden.length > 0 ? `${SELECTORS_VERSION}+config` : SELECTORS_VERSION,
+    steps: { ...DEFAULT_STEP_SELECTORS, ...overrides.steps } as Record<SelectorStep, string[]>,
+    fields: { ...DEFAULT_FIELD_LABELS, ...overrides.fields } as Record<FieldName, string[]>,
+    overridden,
+  };
+}
+
+export interface SelectorMatch {
+  step: string;
+  /** Selector or label that matched, or null if none did */
+  matched: string | null;
+  /** Position of the match in the fallback list (0 = primary) */
+  index: number | null;
+  candidates: number;
+  checkedAt: string;
+}
+
+export interface SelectorHealthSummary {
+  report: string;
+  version: string;
+  /** Steps that only matched on a fallback */
+  drift: string[];
+  /** Steps where nothing matched */
+  missing: string[];
+}
+
+/**
+ * Records which fallback matched for each step during one run.
+ *
+ * A step matching beyond its first entry is drift: the primary selector
+ * no longer works and the fallbacks are carrying it.
+ */
+export class SelectorHealth {
+  private matches: SelectorMatch[] = [];
+
+  constructor(private registry: SelectorRegistry, private reportPath: string) {}
+
+  /**
+   * @param index - Position of the matching candidate, or -1 if none matched
+   * @param optional - Don't report a miss (e.g. no cookie banner was shown)
+   */
+  record(step: string, candidates: string[], index: number, optional = false): void {
+    if (index < 0 && optional) {
+      return;
+    }
+    this.matches.push({
+      step,
+      matched: index >= 0 ? candidates[index] : null,
+      index: index >= 0 ? index : null,
+      candidates: candidates.length,
+      checkedAt: new Date().toISOString(),
+    });
+  }
+
+  get recorded(): boolean {
+    return this.matches.length > 0;
+  }
+
+  /** Writes the report and returns its summary. */
+  save(): SelectorHealthSummary {
+    // A step can run more than once (e.g. cookie banners); keep the latest
+    const latest = new Map<string, SelectorMatch>();
+    for (const match of this.matches) {
+      latest.set(match.step, match);
+    }
+    const steps = [...latest.values()];
+    const drift = steps.filter((m) => m.index !== null && m.index > 0).map((m) => m.step);
+    const missing = steps.filter((m) => m.index === null).map((m) => m.step);
+
+    writeFileSync(this.reportPath, JSON.stringify({
+      version: this.registry.version,
+      overridden: this.registry.overridden,
+      generatedAt: new Date().toISOString(),
+      drift,
+      missing,
+      steps,
+    }, null, 2));
+
+    return { report: this.reportPath, version: this.registry.version, drift, missing };
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Session Lock
+ *
+ * Every CLI invocation drives the same browser tab through the session
+ * file, so two commands at once (two agents, or a person and an agent)
+ * would type into the same form. Commands that use the session hold an
+ * exclusive lock for as long as they run.
+ *
+ * The lock is a file next to the session file holding the owner's PID,
+ * host and an expiry. It is created atomically; a competing command either
+ * waits for it or fails at once with SESSION_BUSY. The owner renews the
+ * expiry while it runs, so a lock is taken over once it lapses, or sooner
+ * when its owner on this host has died. A lapsed lock is taken over even
+ * if its PID is running: PIDs are reused (each container or cron run
+ * often gets the same one), and a live owner would have renewed it.
+ */
+
+import { readFileSync, renameSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { hostname } from "os";
+import { UPSError } from "./errors.js";
+import { SESSION_PATH } from "./session.js";
+
+export const LOCK_PATH = process.env.UPS_LOCK_PATH || `${SESSION_PATH}.lock`;
+
+// How long a lock outlives its last renewal; the owner renews it every third of this
+export const DEFAULT_LOCK_TTL_SECONDS = 600;
+
+const POLL_MS = 500;
+// A lock file still unreadable after this was left half-written
+const UNREADABLE_GRACE_MS = 5000;
+
+export interface LockInfo {
+  pid: number;
+  host: string;
+  operation: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
+export interface LockOptions {
+  /** How long to wait for a busy session; 0 fails at once */
+  waitSeconds?: number;
+  /** How long the lock outlives its last renewal, for commands on other hosts */
+  ttlSeconds?: number;
+}
+
+/** A held lock; release() removes the file if it is still ours. */
+export interface SessionLock {
+  info: LockInfo;
+  /** Stale lock that was taken over, if any */
+  recovered: LockInfo | null;
+  release(): void;
+}
+
+/** Reads the current lock, or null if there is none (or it is unreadable). */
+export function readLock(): LockInfo | null {
+  try {
+    return JSON.parse(readFileSync(LOCK_PATH, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM: the process exists but belongs to someone else
+    return error.code === "EPERM";
+  }
+}
+
+/**
+ * Why a lock can be taken over, or null while its owner still holds it.
+ * A lock is stale once its expiry passes without renewal, or at once if
+ * its owner on this host is no longer running.
+ */
+export function staleReason(lock: LockInfo, now: number = Date.now()): string | null {
+  if (lock.host === hostname() && !isAlive(lock.pid)) {
+    return `process ${lock.pid} is no longer running`;
+  }
+  if (Date.parse(lock.expiresAt) <= now) {
+    return `expired at ${lock.expiresAt}`;
+  }
+  return null;
+}
+
+function tryCreate(info: LockInfo): boolean {
+  try {
+    writeFileSync(LOCK_PATH, JSON.stringify(info), { flag: "wx", mode: 0o600 });
+    return true;
+  } catch (error: any) {
+    if (error.code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+function isOwned(info: LockInfo): boolean {
+  const current = readLock();
+  return !!current && current.pid === info.pid && current.acquiredAt === info.acquiredAt;
+}
+
+// Pushes the expiry on; written to a temp file and renamed so readers never see half a lock
+function renew(info: LockInfo, ttlMs: number): void {
+  if (!isOwned(info)) {
+    return;
+  }
+  info.expiresAt = new Date(Date.now() + ttlMs).toISOString();
+  const temp = `${LOCK_PATH}.${process.pid}`;
+  try {
+    writeFileSync(temp, JSON.stringify(info), { mode: 0o600 });
+    renameSync(temp, LOCK_PATH);
+  } catch {
+    // Try again at the next renewal
+  }
+}
+
+function removeIfOwned(info: LockInfo): void {
+  if (isOwned(info)) {
+    try {
+      unlinkSync(LOCK_PATH);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Takes the session lock for an operation.
+ *
+ * @param operation - Command holding the lock, shown to anyone waiting
+ * @param options - Wait and expiry settings
+ * @returns The held lock; call release() when the operation ends
+ * @throws UPSError SESSION_BUSY if another live command holds it past the wait
+ */
+export async function acquireLock(operation: string, options: LockOptions = {}): Promise<SessionLock> {
+  const ttlMs = (options.ttlSeconds ?? DEFAULT_LOCK_TTL_SECONDS) * 1000;
+  const deadline = Date.now() + (options.waitSeconds ?? 0) * 1000;
+  let recovered: LockInfo | null = null;
+
+  for (;;) {
+    const now = Date.now();
+    const info: LockInfo = {
+      pid: process.pid,
+      host: hostname(),
+      operation,
+      acquiredAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+    if (tryCreate(info)) {
+      // A crash between here and release() leaves a lock the next command recovers
+      const onExit = () => removeIfOwned(info);
+      process.once("exit", onExit);
+      const renewal = setInterval(() => renew(info, ttlMs), ttlMs / 3);
+      renewal.unref();
+      return {
+        info,
+        recovered,
+        release() {
+          clearInterval(renewal);
+          process.removeListener("exit", onExit);
+          removeIfOwned(info);
+        },
+      };
+    }
+
+    const holder = readLock();
+    if (holder && staleReason(holder, now)) {
+      // Only remove the lock we judged stale, not one taken since
+      removeIfOwned(holder);
+      recovered = holder;
+      continue;
+    }
+    if (!holder) {
+      // Released between our attempt and the read, or not written yet
+      try {
+        if (now - statSync(LOCK_PATH).mtimeMs > UNREADABLE_GRACE_MS) {
+          unlinkSync(LOCK_PATH);
+          continue;
+        }
+      } catch (error: any) {
+        // Removed or replaced by another command meanwhile; try again
+        if (error.code !== "ENOENT") {
+          throw error;
+        }
+        continue;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      continue;
+    }
+    if (now >= deadline) {
+      throw new UPSError(
+        "SESSION_BUSY",
+        `Session is busy: ${holder.operation} (pid ${holder.pid} on ${holder.host}) has held it since ${holder.acquiredAt}`,
+        { lock: holder }
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, Math.min(POLL_MS, deadline - now)));
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Session State
+ *
+ * Small JSON file shared between CLI invocations. Holds the browser
+ * endpoint for reconnection and where the current booking has got to,
+ * for whichever driver is in use.
+ *
+ * A booking moves through these states:
+ *
+ *   idle → browser-up → logged-in → form-filled → reviewed → submitted
+ *
+ * Any state can move to failed, and reset returns to idle. The api driver
+ * has no browser, so it goes straight from idle to form-filled. Moves not
+ * in TRANSITIONS (e.g. submitting twice) are rejected with INVALID_STATE.
+ */
+
+import { existsSync, readFileSync, writeFileSync, unlinkSync } from "fs";
+import { UPSError } from "./errors.js";
+import type { DriverName, FormState } from "./types.js";
+
+export const SESSION_PATH = process.env.UPS_SESSION_PATH || "/tmp/ups-session.json";
+
+// UPS signs the web session out after roughly half an hour of inactivity
+export const DEFAULT_SESSION_TTL_MINUTES = 30;
+
+export type SessionState = "idle" | "browser-up" | "logged-in" | "form-filled" | "reviewed" | "submitted" | "failed";
+
+/** States each state may move to, besides idle (reset) which is always allowed. */
+const TRANSITIONS: Record<SessionState, SessionState[]> = {
+  idle: ["browser-up", "logged-in", "form-filled", "failed"],
+  "browser-up": ["logged-in", "failed"],
+  "logged-in": ["logged-in", "form-filled", "failed"],
+  "form-filled": ["logged-in", "form-filled", "reviewed", "submitted", "failed"],
+  reviewed: ["logged-in", "form-filled", "submitted", "failed"],
+  submitted: ["browser-up", "logged-in", "form-filled", "failed"],
+  failed: ["browser-up", "logged-in", "form-filled", "failed"],
+};
+
+export interface SessionInfo {
+  wsEndpoint?: string;
+  createdAt: string;
+  driver?: DriverName;
+  state: SessionState;
+  /** When the session entered its current state */
+  stateChangedAt: string;
+  /** Last page the browser was on, for status when the browser is gone */
+  pageUrl?: string;
+  formState?: FormState;
+  pendingCancellation?: string;
+  /** Run folder of the last fill-form, so submit adds to the same run */
+  runId?: string;
+  trace?: boolean;
+  /** When Schedule was clicked for the current form; it is never clicked twice */
+  scheduleClickedAt?: string;
+}
+
+export interface BrowserProbe {
+  endpoint: string | null;
+  reachable: boolean;
+  /** URL of the first open page, when the browser answered */
+  pageUrl: string | null;
+  reason?: string;
+}
+
+function newSession(): SessionInfo {
+  const now = new Date().toISOString();
+  return { createdAt: now, state: "idle", stateChangedAt: now };
+}
+
+export function readSession(): SessionInfo | null {
+  if (!existsSync(SESSION_PATH)) {
+    return null;
+  }
+  try {
+    const session = JSON.parse(readFileSync(SESSION_PATH, "utf-8"));
+    // Files written before the state machine only had flags
+    if (!session.state) {
+      session.state = session.formFilled ? "form-filled" : session.loggedIn ? "logged-in" : "idle";
+      session.stateChangedAt = session.createdAt;
+      delete session.formFilled;
+      delete session.loggedIn;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function writeSession(session: SessionInfo): void {
+  writeFileSync(SESSION_PATH, JSON.stringify(session));
+}
+
+/**
+ * Merges updates into the session, creating it if none exists.
+ * Use transitionSession() to change the state.
+ */
+export function updateSession(updates: Partial<Omit<SessionInfo, "state" | "stateChangedAt">>): void {
+  const session = readSession() || newSession();
+  Object.assign(session, updates);
+  writeSession(session);
+}
+
+export function canTransition(from: SessionState, to: SessionState): boolean {
+  return to === "idle" || TRANSITIONS[from].includes(to);
+}
+
+/** States reachable from the given one. */
+export function nextStates(from: SessionState): SessionState[] {
+  return [...TRANSITIONS[from], "idle"];
+}
+
+/**
+ * Moves the session to a new state, merging in any updates.
+ *
+ * @throws UPSError INVALID_STATE if the move is not allowed from the current state
+ */
+export function transitionSession(
+  to: SessionState,
+  updates: Partial<Omit<SessionInfo, "state" | "stateChangedAt">> = {}
+): SessionInfo {
+  const session = readSession() || newSession();
+  if (!canTransition(session.state, to)) {
+    throw new UPSError(
+      "INVALID_STATE",
+      `Session cannot move from "${session.state}" to "${to}". Allowed next: ${nextStates(session.state).join(", ")}`,
+      { state: session.state, requested: to }
+    );
+  }
+  Object.assign(session, updates, { state: to, stateChangedAt: new Date().toISOString() });
+  writeSession(session);
+  return session;
+}
+
+/** When a session in its current state is considered stale. */
+export function staleAt(session: SessionInfo, ttlMinutes = DEFAULT_SESSION_TTL_MINUTES): Date {
+  return new Date(Date.parse(session.stateChangedAt) + ttlMinutes * 60 * 1000);
+}
+
+/**
+ * Checks whether the browser behind a CDP endpoint still answers, using
+ * the DevTools HTTP endpoints rather than attaching to it.
+ */
+export async function probeBrowser(wsEndpoint: string | undefined, timeoutMs = 2000): Promise<BrowserProbe> {
+  if (!wsEndpoint) {
+    return { endpoint: null, reachable: false, pageUrl: null, reason: "No browser endpoint recorded" };
+  }
+
+  const base = new URL(wsEndpoint);
+  base.protocol = base.protocol === "wss:" ? "https:" : "http:";
+  base.pathname = "";
+  try {
+    const response = await fetch(new URL("/json/list", base), { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      return { endpoint: wsEndpoint, reachable: false, pageUrl: null, reason: `DevTools answered ${response.status}` };
+    }
+    const targets = (await response.json()) as { type: string; url: string }[];
+    const page = targets.find((target) => target.type === "page");
+    return { endpoint: wsEndpoint, reachable: true, pageUrl: page?.url ?? null };
+  } catch (error: any) {
+    return { endpoint: wsEndpoint, reachable: false, pageUrl: null, reason: error.message };
+  }
+}
+
+/**
+ * Asks a DevTools HTTP server on a local port for its browser's CDP
+ * endpoint, or returns null if it does not answer.
+ */
+export async function devtoolsEndpoint(port: number, timeoutMs = 2000): Promise<string | null> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/json/version`, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!response.ok) {
+      return null;
+    }
+    const version = (await response.json()) as { webSocketDebuggerUrl?: string };
+    return version.webSocketDebuggerUrl ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSession(): void {
+  if (existsSync(SESSION_PATH)) {
+    try {
+      unlinkSync(SESSION_PATH);
+    } catch {
+      // Ignore deletion errors
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cleanupArtifacts, newRunId, parseDuration, runsDir, writeRunRecord } from "../artifacts.js";
+import { withFixtureConfig } from "./fixtures/config.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+describe("artifact cleanup", () => {
+  let artifactDir: string;
+
+  function addRun(daysAgo: number, confirmationNumber: string | null = null, code?: string): string {
+    const startedAt = new Date(NOW.getTime() - daysAgo * DAY);
+    const runId = newRunId("book", startedAt);
+    const dir = join(runsDir(artifactDir), runId);
+    mkdirSync(dir, { recursive: true });
+    writeRunRecord(dir, {
+      runId,
+      operation: "book",
+      startedAt: startedAt.toISOString(),
+      finishedAt: startedAt.toISOString(),
+      success: !!confirmationNumber,
+      code,
+      confirmationNumber,
+    });
+    return runId;
+  }
+
+  before(() => {
+    artifactDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+  });
+
+  after(() => {
+    rmSync(artifactDir, { recursive: true, force: true });
+  });
+
+  it("parses durations", () => {
+    assert.equal(parseDuration("30d"), 30 * DAY);
+    assert.equal(parseDuration("2w"), 14 * DAY);
+    assert.throws(() => parseDuration("30 days"), /Invalid duration/);
+  });
+
+  it("prunes old runs but keeps the newest and every confirmed booking", () => {
+    const recent = addRun(1);
+    const confirmed = addRun(90, "2929602E01CP");
+    const old = addRun(60);
+    const older = addRun(70);
+    const unconfirmed = addRun(80, null, "CONFIRMATION_NOT_PARSED");
+    const loose = join(artifactDir, "ups-form-preview-1.png");
+    const looseConfirmation = join(artifactDir, "ups-confirmation-1.png");
+    for (const path of [loose, looseConfirmation]) {
+      writeFileSync(path, "");
+      utimesSync(path, new Date(NOW.getTime() - 40 * DAY), new Date(NOW.getTime() - 40 * DAY));
+    }
+
+    const preview = cleanupArtifacts(artifactDir, { olderThan: "30d", keepLast: 2, dryRun: true }, NOW);
+    assert.deepEqual(preview.removed, [older]);
+    assert.ok(existsSync(join(runsDir(artifactDir), older)), "dry run deletes nothing");
+
+    const result = cleanupArtifacts(artifactDir, { olderThan: "30d", keepLast: 2 }, NOW);
+    assert.deepEqual(result.removed, [older]);
+    assert.deepEqual(result.confirmed, [confirmed]);
+    assert.deepEqual(result.unconfirmed, [unconfirmed], "a submit without a read confirmation may be a booking");
+    assert.equal(result.looseFilesRemoved, 1);
+    assert.equal(result.looseConfirmationsKept, 1);
+    assert.ok(existsSync(join(runsDir(artifactDir), recent)));
+    assert.ok(existsSync(join(runsDir(artifactDir), old)), "within --keep-last 2");
+    assert.equal(existsSync(loose), false);
+    assert.ok(existsSync(looseConfirmation), "old confirmation screenshots are proof of booking");
+  });
+});
+
+describe("cleanup command", () => {
+  it("does not delete while another command holds the session", async () => {
+    const config = await withFixtureConfig();
+    const { acquireLock } = await import("../session-lock.js");
+    const runDir = join(runsDir(config.artifactDir), newRunId("book"));
+    mkdirSync(runDir, { recursive: true });
+    try {
+      const lock = await acquireLock("book");
+      const busy = await new config.UPSClient().cleanup({ keepLast: 0 });
+      assert.equal(busy.code, "SESSION_BUSY");
+      assert.ok(existsSync(runDir), "the running book's folder is left alone");
+
+      const preview = await new config.UPSClient().cleanup({ keepLast: 0, dryRun: true });
+      assert.equal(preview.removed.length, 1, "a dry run deletes nothing, so it does not wait");
+      lock.release();
+
+      const result = await new config.UPSClient().cleanup({ keepLast: 0 });
+      assert.equal(result.success, true);
+      assert.equal(existsSync(runDir), false);
+    } finally {
+      config.cleanup();
+    }
+  });
+});
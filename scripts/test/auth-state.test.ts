@@ -0,0 +1,38 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const HOUR = 60 * 60 * 1000;
+
+describe("saved login state", () => {
+  let workDir: string;
+  let auth: typeof import("../auth-state.js");
+
+  before(async () => {
+    workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+    // The path is read when the module loads
+    process.env.UPS_AUTH_STATE_PATH = join(workDir, "storage-state.json");
+    auth = await import("../auth-state.js");
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("reuses state within the max age and deletes it after", () => {
+    writeFileSync(auth.AUTH_STATE_PATH, JSON.stringify({ cookies: [], origins: [] }));
+    const savedAt = statSync(auth.AUTH_STATE_PATH).mtimeMs;
+
+    assert.equal(auth.freshAuthState(12, savedAt + 11 * HOUR), auth.AUTH_STATE_PATH);
+    assert.equal(auth.freshAuthState(12, savedAt + 13 * HOUR), null);
+    assert.equal(existsSync(auth.AUTH_STATE_PATH), false);
+  });
+
+  it("never reuses state when the max age is 0", () => {
+    writeFileSync(auth.AUTH_STATE_PATH, "{}");
+    assert.equal(auth.freshAuthState(0), null);
+    assert.equal(auth.clearAuthState(), false);
+  });
+});
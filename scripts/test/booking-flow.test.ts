@@ -0,0 +1,207 @@
+/**
+ * Offline booking flow tests
+ *
+ * Drives fill-form → submit and book headlessly against the local
+ * UPS portal fixture server. Requires Playwright's Chromium
+ * (`npx playwright install chromium`).
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, readFileSync, readdirSync, rmSync } from "fs";
+import { join } from "path";
+import {
+  FIXTURE_PASSWORD,
+  FIXTURE_USERNAME,
+  FixtureServer,
+  startFixtureServer,
+} from "./fixtures/ups-portal.js";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+import { CollectionCalendar } from "../collection-calendar.js";
+
+const FLOW_TIMEOUT = 180_000;
+
+describe("browser booking flow", () => {
+  let fixture: FixtureServer;
+  let config: FixtureConfig;
+  let workDir: string;
+  let ledgerPath: string;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+  // Working days only, so the client's date validation accepts them
+  const [firstDate, secondDate, thirdDate, fourthDate, fifthDate] = new CollectionCalendar().nextDates(5).dates;
+
+  before(async () => {
+    fixture = await startFixtureServer();
+    process.env.UPS_HEADLESS = "1";
+    config = await withFixtureConfig({
+      ups: { username: FIXTURE_USERNAME, password: FIXTURE_PASSWORD },
+      urls: fixture.urls,
+    });
+    ({ workDir, ledgerPath, UPSClient } = config);
+  });
+
+  beforeEach(() => {
+    rmSync(config.sessionPath, { force: true });
+  });
+
+  after(async () => {
+    await fixture.close();
+    config.cleanup();
+  });
+
+  it("fills the form and submits it in two stages", { timeout: FLOW_TIMEOUT }, async () => {
+    const client = new UPSClient();
+    const date = firstDate;
+
+    try {
+      const fill = await client.fillForm({
+        date,
+        packages: 2,
+        weight: 25,
+        earliestTime: "13:00",
+        latestTime: "18:00",
+        doorCode: "123456789",
+      });
+
+      assert.equal(fill.success, true, fill.message);
+      assert.equal(fill.loginReused, false, "first run logs in with the password");
+      assert.deepEqual(
+        fill.verification.filter((check: { status: string }) => check.status !== "matched"),
+        [],
+        "every filled field should read back as entered"
+      );
+      assert.equal(fill.formState.profile, "south");
+      assert.equal(fill.formState.specialInstructions, "Door code * 123456789 #");
+      assert.equal(fixture.bookings.length, 0, "fill-form must not book");
+
+      const status = await client.status();
+      assert.equal(status.browser.reachable, true, status.browser.reason);
+      assert.match(status.browser.endpoint, /^ws:\/\/127\.0\.0\.1:\d+\/devtools\/browser\//);
+      assert.equal(status.pageUrl, fixture.urls.form);
+
+      const submit = await client.submit();
+      assert.equal(submit.success, true, submit.message);
+
+      const booking = fixture.bookings.at(-1)!;
+      assert.equal(submit.confirmation.confirmationNumber, booking.confirmationNumber);
+      assert.equal(submit.confirmation.totalCharges, "12.50 GBP");
+      assert.deepEqual(
+        {
+          addressType: booking.fields.addressType,
+          company: booking.fields.company,
+          addressLine1: booking.fields.addressLine1,
+          city: booking.fields.city,
+          postalCode: booking.fields.postalCode,
+          telephone: booking.fields.telephone,
+          packages: booking.fields.packages,
+          weight: booking.fields.weight,
+          collectFrom: booking.fields.collectFrom,
+          specialInstructions: booking.fields.specialInstructions,
+          collectionDate: booking.fields.collectionDate,
+          earliestHour: booking.fields.earliestHour,
+          email: booking.fields.email,
+          paymentAccount: booking.fields.paymentAccount,
+        },
+        {
+          addressType: "NEW",
+          company: "Fixture Ltd",
+          addressLine1: "1 Test Street",
+          city: "Testville",
+          postalCode: "TE1 1ST",
+          telephone: "01234 567890",
+          packages: "2",
+          weight: "25",
+          collectFrom: "Reception",
+          specialInstructions: "Door code * 123456789 #",
+          collectionDate: date,
+          earliestHour: "13",
+          email: "logistics@example.com",
+          paymentAccount: "ACC-SOUTH",
+        }
+      );
+    } finally {
+      await client.reset();
+    }
+  });
+
+  it("books in one step and records the attempt in the ledger", { timeout: FLOW_TIMEOUT }, async () => {
+    const client = new UPSClient();
+    const date = secondDate;
+
+    const result = await client.book({ date, packages: 1, weight: 10, doorCode: "987654321" });
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.loginReused, true, "the login saved by the previous run is reused");
+    const booking = fixture.bookings.at(-1)!;
+    assert.equal(result.confirmation.confirmationNumber, booking.confirmationNumber);
+    assert.equal(booking.fields.collectionDate, date);
+
+    const ledger = readFileSync(ledgerPath, "utf-8").trim().split("\n").map((line) => JSON.parse(line));
+    const entry = ledger.at(-1);
+    assert.equal(entry.operation, "book");
+    assert.equal(entry.status, "booked");
+    assert.equal(entry.confirmationNumber, booking.confirmationNumber);
+    assert.equal(entry.formState.date, date);
+  });
+
+  it("previews a cancellation, then confirms it", { timeout: FLOW_TIMEOUT }, async () => {
+    const client = new UPSClient();
+
+    try {
+      const booked = await client.book({ date: fourthDate, doorCode: "555666777" });
+      assert.equal(booked.success, true, booked.message);
+      const confirmation = booked.confirmation.confirmationNumber;
+
+      const preview = await client.cancel({ confirmation });
+      assert.equal(preview.success, true, preview.message);
+      assert.equal(preview.stage, "preview");
+      assert.match(preview.pickup.summary, new RegExp(confirmation));
+      assert.equal(preview.formState.date, fourthDate, "the booking's formState comes from the ledger");
+      assert.equal(fixture.bookings.at(-1)!.cancelled, undefined, "preview must not cancel");
+
+      const cancelled = await client.cancel({ confirmation, confirm: true });
+      assert.equal(cancelled.success, true, cancelled.message);
+      assert.equal(cancelled.stage, "cancelled");
+      assert.equal(fixture.bookings.at(-1)!.cancelled, true);
+
+      const entry = readFileSync(ledgerPath, "utf-8").trim().split("\n").map((line) => JSON.parse(line)).at(-1);
+      assert.equal(entry.operation, "cancel");
+      assert.equal(entry.status, "cancelled");
+      assert.equal(entry.confirmationNumber, confirmation);
+    } finally {
+      await client.reset();
+    }
+  });
+
+  it("submits a form filled with --trace", { timeout: FLOW_TIMEOUT }, async () => {
+    const client = new UPSClient();
+
+    try {
+      const fill = await client.fillForm({ date: fifthDate, packages: 1, weight: 5, doorCode: "444555666", trace: true });
+      assert.equal(fill.success, true, fill.message);
+      assert.ok(existsSync(fill.artifacts.trace), "fill-form trace written");
+      const har = JSON.parse(readFileSync(fill.artifacts.har, "utf-8"));
+      assert.ok(har.log.entries.some((entry: any) => entry.request.url === fixture.urls.form), "HAR lists the form page");
+
+      const submit = await client.submit();
+      assert.equal(submit.success, true, submit.message);
+      assert.equal(submit.confirmation.confirmationNumber, fixture.bookings.at(-1)!.confirmationNumber);
+    } finally {
+      await client.reset();
+    }
+  });
+
+  it("bundles a trace, HAR and screenshots into the run folder", { timeout: FLOW_TIMEOUT }, async () => {
+    const client = new UPSClient();
+
+    const result = await client.book({ date: thirdDate, doorCode: "111222333", trace: true });
+
+    assert.equal(result.success, true, result.message);
+    const { dir, trace, har } = result.artifacts;
+    assert.ok(dir.startsWith(join(workDir, "artifacts", "runs")));
+    assert.ok(existsSync(trace), "trace zip written");
+    assert.ok(existsSync(har), "HAR written");
+    assert.ok(result.confirmationScreenshot.startsWith(dir));
+    assert.ok(readdirSync(dir).includes("selector-health.json"));
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CollectionCalendar, londonNow } from "../collection-calendar.js";
+
+describe("CollectionCalendar", () => {
+  it("uses the London calendar day near midnight during BST", () => {
+    // 23:30 UTC on 14 Oct is 00:30 on 15 Oct in London
+    const now = new Date("2026-10-14T23:30:00Z");
+    assert.equal(londonNow(now).date, "2026-10-15");
+    assert.equal(new CollectionCalendar().nextDate(now), "2026-10-15");
+  });
+
+  it("rolls over to the next working day after the cutoff", () => {
+    // Friday 16 Oct 2026, 13:05 BST
+    const now = new Date("2026-10-16T12:05:00Z");
+    const { dates, skipped } = new CollectionCalendar().nextDates(1, now);
+
+    assert.deepEqual(dates, ["2026-10-19"]);
+    assert.deepEqual(skipped.map((s) => s.date), ["2026-10-16", "2026-10-17", "2026-10-18"]);
+    assert.match(skipped[0].reason, /13:00 same-day cutoff/);
+  });
+
+  it("honours a configured cutoff", () => {
+    const now = new Date("2026-10-16T12:05:00Z");
+    assert.equal(new CollectionCalendar({ cutoff: "15:00" }).nextDate(now), "2026-10-16");
+  });
+
+  it("skips bank holidays and configured closures", () => {
+    // Thursday 24 Dec 2026 after the cutoff
+    const now = new Date("2026-12-24T14:00:00Z");
+    const calendar = new CollectionCalendar({ closures: [{ date: "2026-12-29", reason: "Stocktake" }] });
+    const { dates, skipped } = calendar.nextDates(1, now);
+
+    assert.deepEqual(dates, ["2026-12-30"]);
+    assert.deepEqual(
+      skipped.filter((s) => s.date >= "2026-12-25").map((s) => s.reason),
+      [
+        "Bank holiday: Christmas Day",
+        "Saturday is not a working day",
+        "Sunday is not a working day",
+        "Bank holiday: Boxing Day",
+        "Closure: Stocktake",
+      ]
+    );
+  });
+
+  it("uses the configured division's bank holidays", () => {
+    assert.equal(new CollectionCalendar({ division: "scotland" }).skipReason("2026-11-30"), "Bank holiday: St Andrew’s Day");
+    assert.equal(new CollectionCalendar({ division: "scotland" }).skipReason("2026-04-06"), null);
+    assert.match(new CollectionCalendar({ division: "northern-ireland" }).skipReason("2026-07-13") ?? "", /Battle of the Boyne/);
+    assert.equal(new CollectionCalendar().skipReason("2026-11-30"), null);
+    assert.throws(() => new CollectionCalendar({ division: "wales" }), /No bank holidays for division "wales"/);
+  });
+
+  it("only rounds the earliest time up when collecting today", () => {
+    const now = new Date("2026-10-15T13:20:00Z"); // 14:20 BST
+    const calendar = new CollectionCalendar();
+    assert.equal(calendar.earliestTime("2026-10-15", now), "15:00");
+    assert.equal(calendar.earliestTime("2026-10-16", now), "12:00");
+  });
+});
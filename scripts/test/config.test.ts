@@ -0,0 +1,82 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { checkConfig, loadConfig, resolveConfig } from "../config.js";
+
+const PROFILE = {
+  company: "Fixture Ltd",
+  address: "1 Test Street",
+  city: "Testville",
+  postalCode: "TE1 1ST",
+  telephone: "01234 567890",
+  collectFrom: "Reception",
+  email: "logistics@example.com",
+  paymentAccount: "ACC-SOUTH",
+};
+
+describe("config", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("names the key at fault", () => {
+    const { config, problems } = resolveConfig({
+      ups: { username: "u", pasword: "p" },
+      calendar: { cutoff: "1pm" },
+      defaultProfile: "north",
+      profiles: { south: { ...PROFILE, email: "not-an-email" } },
+    }, {});
+    assert.equal(config, null);
+    assert.deepEqual(problems.sort(), [
+      "calendar.cutoff: expected HH:MM",
+      'defaultProfile: no profile named "north" (have: south)',
+      "profiles.south.email: Invalid email",
+      "ups.pasword: unknown key",
+    ]);
+  });
+
+  it("takes credentials from the environment, then a secret command, then the file", () => {
+    const { config, credentials, problems } = resolveConfig({
+      ups: { username: "from-file", password: "from-file", passwordCommand: "echo from-command" },
+      profiles: { south: PROFILE },
+    }, { UPS_USERNAME: "from-env" });
+    assert.deepEqual(problems, []);
+    assert.equal(config!.ups.username, "from-env");
+    assert.equal(config!.ups.password, "from-command");
+    assert.deepEqual(credentials, { "ups.username": "env", "ups.password": "command" });
+  });
+
+  it("requires only the selected driver's credentials", () => {
+    const browser = resolveConfig({ profiles: { south: PROFILE } }, {});
+    assert.deepEqual(browser.problems, [
+      "ups.username: not set (use UPS_USERNAME, ups.usernameCommand or ups.username in config.json)",
+      "ups.password: not set (use UPS_PASSWORD, ups.passwordCommand or ups.password in config.json)",
+    ]);
+
+    const api = resolveConfig({ driver: "api", api: { clientIdCommand: "exit 1" }, profiles: { south: PROFILE } }, {
+      UPS_API_CLIENT_SECRET: "secret",
+    });
+    assert.equal(api.problems.length, 1);
+    assert.match(api.problems[0], /^api\.clientIdCommand: failed/);
+  });
+
+  it("throws CONFIG_INVALID from loadConfig and reports placeholders from checkConfig", () => {
+    const path = join(workDir, "config.json");
+    writeFileSync(path, JSON.stringify({ driver: "bus", profiles: { south: PROFILE } }));
+    assert.throws(() => loadConfig(path, {}), { code: "CONFIG_INVALID", message: /driver: Invalid enum value/ });
+
+    writeFileSync(path, JSON.stringify({ ups: { username: "YOUR_UPS_USERNAME", password: "secret" }, profiles: { south: PROFILE } }));
+    const report = checkConfig(path, {});
+    assert.equal(report.valid, true);
+    assert.deepEqual(report.warnings, ["ups.username: still the template placeholder"]);
+    assert.equal(checkConfig(path, { UPS_USERNAME: "real" }).warnings.length, 0);
+  });
+});
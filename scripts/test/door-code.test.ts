@@ -0,0 +1,173 @@
+/**
+ * Door code tests
+ *
+ * Reads codes from a command, a local HTTP endpoint and files, and plans a
+ * booking that looks its code up; no browser is launched.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { doorCodeProblem, normalizeDoorCode, obtainDoorCode, parseDoorCode, staleReason } from "../door-code.js";
+import { FIXTURE_PROFILE, FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+const SLACK_CSV = [
+  "MsgID,UserID,UserName,RealName,Channel,ThreadTs,Text,Time,Reactions,Cursor",
+  "1767861574.199219,,Zapier,Zapier,C0123,,123-456-789,2026-01-08T08:39:34Z,,",
+].join("\n");
+
+describe("door code parsing", () => {
+  it("finds the code and posting time in a Slack CSV row", () => {
+    assert.deepEqual(parseDoorCode(SLACK_CSV), { code: "123-456-789", postedAt: "2026-01-08T08:39:34Z" });
+  });
+
+  it("reads configured JSON fields", () => {
+    const body = JSON.stringify({ door: { code: "4321" }, updated: "2026-10-19T07:00:00Z" });
+    assert.deepEqual(
+      parseDoorCode(body, { codeField: "door.code", postedAtField: "updated" }),
+      { code: "4321", postedAt: "2026-10-19T07:00:00Z" }
+    );
+  });
+
+  it("uses a pattern when one is configured", () => {
+    assert.equal(parseDoorCode("Today's code is 55 66 77, see you", { pattern: "code is ([\\d ]+)" }).code, "55 66 77");
+  });
+
+  it("skips date fields and prefers a field with the configured digit count", () => {
+    assert.equal(parseDoorCode("2026-10-19,4821").code, "4821");
+    assert.equal(parseDoorCode("19-10-2026;Door 1;123 456").code, "123 456");
+    assert.equal(parseDoorCode("1767861574,12,123-456-789", { digits: 9 }).code, "123-456-789");
+    assert.equal(parseDoorCode("1767861574,12", { digits: 9 }).code, "1767861574", "falls back so the digit problem is reported");
+  });
+
+  it("normalises and checks the digit count", () => {
+    assert.equal(normalizeDoorCode("123-456 789"), "123456789");
+    assert.equal(doorCodeProblem("123456789", 9), null);
+    assert.match(doorCodeProblem("12345", 9) ?? "", /must have 9 digits/);
+    assert.match(doorCodeProblem("12a45") ?? "", /digits only/);
+    assert.match(doorCodeProblem("12") ?? "", /3 to 12 digits/);
+  });
+
+  it("treats codes older than maxAgeHours as stale", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    assert.equal(staleReason("2026-10-19T08:00:00Z", 24, now), null);
+    assert.match(staleReason("2026-10-17T08:00:00Z", 24, now) ?? "", /posted 52h ago/);
+    assert.equal(staleReason("2026-10-17T08:00:00Z", 0, now), null);
+    assert.equal(staleReason(null, 24, now), null);
+  });
+});
+
+describe("door code sources", () => {
+  let workDir: string;
+  let server: Server;
+  let url: string;
+  const now = new Date("2026-01-08T12:00:00Z");
+
+  before(async () => {
+    workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+    server = createServer((request, response) => {
+      if (request.url === "/code") {
+        response.setHeader("Content-Type", "application/json");
+        response.end(JSON.stringify({ code: "987-654-321", postedAt: "2026-01-08T09:00:00Z" }));
+      } else {
+        response.statusCode = 404;
+        response.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("takes the code from a command's output", async () => {
+    const file = join(workDir, "slack.csv");
+    writeFileSync(file, SLACK_CSV);
+    const result = await obtainDoorCode({ command: `cat "${file}"`, digits: 9 }, now);
+    assert.deepEqual(result, { code: "123456789", source: "command", postedAt: "2026-01-08T08:39:34Z", tried: [] });
+  });
+
+  it("reads an HTTP endpoint", async () => {
+    const result = await obtainDoorCode({ url: `${url}/code` }, now);
+    assert.equal(result.code, "987654321");
+    assert.equal(result.source, "url");
+  });
+
+  it("falls through failing and stale sources in order", async () => {
+    const file = join(workDir, "door.txt");
+    writeFileSync(file, "111-222\n");
+    const written = new Date("2026-01-06T09:00:00Z");
+    utimesSync(file, written, written);
+
+    const result = await obtainDoorCode({ url: `${url}/missing`, file, code: "4455" }, now);
+    assert.equal(result.code, "4455");
+    assert.equal(result.source, "code");
+    assert.equal(result.tried.length, 2);
+    assert.match(result.tried[0], /^url: HTTP 404/);
+    assert.match(result.tried[1], /^file: "111-222" posted 51h ago/);
+  });
+
+  it("rejects codes with the wrong number of digits", async () => {
+    const result = await obtainDoorCode({ code: "12-34", digits: 6 }, now);
+    assert.equal(result.code, null);
+    assert.deepEqual(result.tried, ['code: "12-34" must have 6 digits (got 4)']);
+  });
+});
+
+describe("door code lookup when booking", () => {
+  let config: FixtureConfig;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  before(async () => {
+    config = await withFixtureConfig({
+      doorCode: { command: "echo 123-456-789", digits: 9 },
+      profiles: {
+        south: FIXTURE_PROFILE,
+        north: { ...FIXTURE_PROFILE, postalCode: "NO1 1TH", doorCode: { code: "12", maxAgeHours: 0 } },
+      },
+    });
+    ({ UPSClient } = config);
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("lists the sources a dry run would query without running them", async () => {
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().book({ date, dryRun: true });
+
+    assert.equal(result.success, true);
+    assert.equal(result.formState.specialInstructions, undefined);
+    assert.deepEqual(result.doorCodeFrom, { source: "command", sources: ["command"], lookedUp: false });
+    assert.ok(result.warnings.includes("Door code not looked up in a dry run; a real run tries command"));
+    assert.ok(!result.warnings.some((warning: string) => /No door code or special instructions/.test(warning)));
+  });
+
+  it("strips dashes from a given code and checks it against the configured digit count", async () => {
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().fillForm({ date, doorCode: "123-456", dryRun: true });
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, "INVALID_INPUT");
+    assert.equal(result.doorCodeFrom.source, "option");
+    assert.match(result.problems[0], /must have 9 digits/);
+  });
+
+  it("refuses before launching when no source gives a usable code", async () => {
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().fillForm({ profile: "north", date });
+
+    assert.equal(result.error, true);
+    assert.equal(result.code, "DOOR_CODE_UNAVAILABLE");
+    assert.match(result.message, /No usable door code: code: "12" must have 3 to 12 digits/);
+  });
+});
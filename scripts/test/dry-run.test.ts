@@ -0,0 +1,57 @@
+/**
+ * Dry-run tests
+ *
+ * Plans fill-form and book without launching a browser; no fixture
+ * server or Chromium needed.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync } from "fs";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+describe("dry run", () => {
+  let config: FixtureConfig;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  before(async () => {
+    config = await withFixtureConfig();
+    ({ UPSClient } = config);
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("resolves every value and lists the steps without touching the session", async () => {
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().book({ date, doorCode: "123456789", dryRun: true });
+
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.dryRun, true);
+    assert.equal(result.formState.postalCode, "TE1 1ST");
+    assert.equal(result.formState.specialInstructions, "Door code * 123456789 #");
+    assert.ok(result.steps.includes("Click Schedule Pickup"));
+    assert.equal(existsSync(config.sessionPath), false);
+  });
+
+  it("reports every problem a real run would refuse on", async () => {
+    const result = await new UPSClient().fillForm({
+      date: "2026-12-25",
+      earliestTime: "19:00",
+      latestTime: "18:00",
+      doorCode: "123-45a",
+      verificationCode: "12a",
+      dryRun: true,
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, "DATE_UNAVAILABLE");
+    assert.equal(result.problems.length, 4);
+    assert.match(result.problems[0], /Christmas Day|in the past/);
+    assert.match(result.problems[1], /must be before latest time/);
+    assert.match(result.problems[2], /digits only/);
+    assert.match(result.problems[3], /Verification code "12a"/);
+  });
+});
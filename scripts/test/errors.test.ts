@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ERROR_CODES, UPSError, errorResult, exitCodeOf, toErrorResult } from "../errors.js";
+
+describe("error codes", () => {
+  it("gives every code a distinct exit code", () => {
+    const exitCodes = Object.values(ERROR_CODES).map((definition) => definition.exitCode);
+    assert.equal(new Set(exitCodes).size, exitCodes.length);
+    assert.ok(exitCodes.every((code) => code > 0));
+  });
+
+  it("builds results with the code's exit code, retry flag and remediation", () => {
+    const result = errorResult("DATE_UNAVAILABLE", "No collection on 2026-12-25", { problems: [] });
+
+    assert.equal(result.error, true);
+    assert.equal(result.code, "DATE_UNAVAILABLE");
+    assert.equal(result.retryable, false);
+    assert.match(result.remediation, /next-dates/);
+    assert.equal(exitCodeOf(result), ERROR_CODES.DATE_UNAVAILABLE.exitCode);
+    assert.equal(exitCodeOf({ success: true }), 0);
+  });
+
+  it("classifies thrown errors", () => {
+    const thrown = toErrorResult(new UPSError("LOGIN_FIELD_MISSING", "No username", { screenshot: "a.png" }));
+    assert.equal(thrown.code, "LOGIN_FIELD_MISSING");
+    assert.equal(thrown.screenshot, "a.png");
+
+    const crashed = toErrorResult(new Error("page.click: Target page, context or browser has been closed"), "UNKNOWN", "Submit failed");
+    assert.equal(crashed.code, "BROWSER_CRASHED");
+    assert.equal(crashed.retryable, true);
+    assert.match(crashed.message, /^Submit failed: /);
+
+    assert.equal(toErrorResult(new Error("boom"), "CANCEL_FAILED").code, "CANCEL_FAILED");
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Fixture Config
+ *
+ * Writes a config.json for the "south" fixture site into a fresh temp
+ * directory, points the client's paths (config, session, artifacts, saved
+ * login) at it and imports the client. The paths are read when the client
+ * modules load, so call this once per test file, before importing
+ * anything that reads them.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+export const FIXTURE_PROFILE = {
+  company: "Fixture Ltd",
+  address: "1 Test Street",
+  city: "Testville",
+  postalCode: "TE1 1ST",
+  telephone: "01234 567890",
+  collectFrom: "Reception",
+  email: "logistics@example.com",
+  paymentAccount: "ACC-SOUTH",
+};
+
+export interface FixtureConfig {
+  workDir: string;
+  configPath: string;
+  ledgerPath: string;
+  sessionPath: string;
+  artifactDir: string;
+  UPSClient: typeof import("../../ups-client.js").UPSClient;
+  /** Removes the temp directory */
+  cleanup(): void;
+}
+
+/**
+ * Sets up the fixture config.
+ *
+ * @param overrides - config.json keys to add or replace, or a function of
+ *   the temp directory returning them (for paths inside it)
+ */
+export async function withFixtureConfig(
+  overrides: Record<string, unknown> | ((workDir: string) => Record<string, unknown>) = {}
+): Promise<FixtureConfig> {
+  const workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+  const configPath = join(workDir, "config.json");
+  const ledgerPath = join(workDir, "bookings.jsonl");
+  const sessionPath = join(workDir, "session.json");
+  const artifactDir = join(workDir, "artifacts");
+
+  writeFileSync(configPath, JSON.stringify({
+    ups: { username: "fixture", password: "unused" },
+    ledgerPath,
+    defaultProfile: "south",
+    profiles: { south: FIXTURE_PROFILE },
+    ...(typeof overrides === "function" ? overrides(workDir) : overrides),
+  }));
+
+  process.env.UPS_CONFIG_PATH = configPath;
+  process.env.UPS_SESSION_PATH = sessionPath;
+  process.env.UPS_ARTIFACT_DIR = artifactDir;
+  process.env.UPS_AUTH_STATE_PATH = join(workDir, "storage-state.json");
+  const { UPSClient } = await import("../../ups-client.js");
+
+  return {
+    workDir,
+    configPath,
+    ledgerPath,
+    sessionPath,
+    artifactDir,
+    UPSClient,
+    cleanup: () => rmSync(workDir, { recursive: true, force: true }),
+  };
+}
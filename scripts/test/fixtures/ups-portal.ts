@@ -0,0 +1,289 @@
+/**
+ * UPS Portal Fixture Server
+ *
+ * Local stand-in for the pages the browser driver automates: the two-step
+ * login, the collection form, the review page, the confirmation page and
+ * the history page, whose pickups open a details page that can cancel them.
+ * Every page carries a OneTrust-style cookie banner, and the login page
+ * adds the dark overlay UPS shows on a first visit.
+ *
+ * Point the driver at it with the "urls" block in config.json.
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+
+export const FIXTURE_USERNAME = "fixture-user";
+export const FIXTURE_PASSWORD = "fixture-pass";
+
+export interface FixtureBooking {
+  confirmationNumber: string;
+  fields: Record<string, string>;
+  cancelled?: boolean;
+}
+
+export interface FixtureServer {
+  baseUrl: string;
+  urls: { login: string; form: string; history: string };
+  /** Collection dates offered in the form (YYYY-MM-DD) */
+  dates: string[];
+  /** Collections scheduled through the confirmation page (cancelled ones stay, marked) */
+  bookings: FixtureBooking[];
+  close(): Promise<void>;
+}
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "long",
+  year: "numeric",
+  month: "long",
+  day: "numeric",
+};
+
+function formatDate(date: string): string {
+  return new Date(date + "T12:00:00").toLocaleDateString("en-GB", DATE_FORMAT);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function cookieBanner(withOverlay: boolean): string {
+  return `
+<div id="onetrust-consent-sdk">
+  ${withOverlay ? '<div class="onetrust-pc-dark-filter" style="position:fixed;inset:0;background:rgba(0,0,0,.5);z-index:9998"></div>' : ""}
+  <div id="onetrust-banner-sdk" style="position:fixed;bottom:0;left:0;right:0;height:60px;background:#eee;z-index:9999">
+    We use cookies to improve your experience.
+    <button id="onetrust-pc-btn-handler">Cookie Settings</button>
+    <button id="onetrust-accept-btn-handler" onclick="document.getElementById('onetrust-consent-sdk').remove()">Accept All Cookies</button>
+  </div>
+</div>`;
+}
+
+function page(title: string, body: string, withOverlay = false): string {
+  return `<!DOCTYPE html>
+<html lang="en-GB">
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body style="padding-bottom:80px">
+<header><strong>UPS</strong></header>
+<main>
+${body}
+</main>
+${cookieBanner(withOverlay)}
+</body>
+</html>`;
+}
+
+function loginPage(): string {
+  return page("Log In", `
+<h1>Log In</h1>
+<form method="post" action="/lasso/identifier">
+  <label for="username">Email or Username</label>
+  <input id="username" name="username" type="text" autocomplete="username">
+  <button type="submit">Continue</button>
+</form>`, true);
+}
+
+function passwordPage(username: string, error?: string): string {
+  return page("Enter Password", `
+<h1>Enter your password</h1>
+${error ? `<p role="alert">${error}</p>` : ""}
+<form method="post" action="/lasso/authenticate">
+  <input type="hidden" name="username" value="${escapeHtml(username)}">
+  <label for="password">Password</label>
+  <input id="password" name="password" type="password" autocomplete="current-password">
+  <button type="submit">Log In</button>
+</form>`);
+}
+
+function schedulePage(dates: string[]): string {
+  const dateOptions = dates
+    .map((d) => `<option value="${d}">${formatDate(d)}</option>`)
+    .join("");
+  const hourOptions = (selected: number) =>
+    Array.from({ length: 11 }, (_, i) => i + 8)
+      .map((h) => `<option value="${h}"${h === selected ? " selected" : ""}>${h}</option>`)
+      .join("");
+
+  return page("Schedule a Collection", `
+<h1>Schedule a Collection</h1>
+<form method="post" action="/pickup/review">
+  <fieldset>
+    <legend>Collection Address</legend>
+    <label><input type="radio" name="addressType" value="ACCOUNT" checked> My account address</label>
+    <label><input type="radio" name="addressType" value="NEW" id="address-new"
+      onclick="document.getElementById('new-address').style.display='block'"> A different collection address</label>
+    <div id="new-address" style="display:none">
+      <input name="company" aria-label="Company Name">
+      <input name="addressLine1" aria-label="Address Line 1">
+      <input name="city" aria-label="City">
+      <input name="postalCode" aria-label="Postal Code">
+      <input name="telephone" aria-label="Telephone">
+    </div>
+  </fieldset>
+  <fieldset>
+    <legend>Collection Details</legend>
+    <input name="packages" aria-label="Number of Packages" value="1">
+    <input name="weight" aria-label="Total Weight (kg)">
+    <select name="collectFrom" aria-label="Preferred Collection Location">
+      <option>Front Door</option><option>Reception</option><option>Loading Bay</option>
+    </select>
+    <textarea name="specialInstructions" aria-label="Special Instructions"></textarea>
+    <select name="collectionDate" aria-label="Collection Date">${dateOptions}</select>
+    <div><label>Earliest Collection Time</label><select name="earliestHour">${hourOptions(12)}</select></div>
+    <div><label>Latest Collection Time</label><select name="latestHour">${hourOptions(18)}</select></div>
+  </fieldset>
+  <fieldset>
+    <legend>Notifications and Payment</legend>
+    <input name="email" type="email" aria-label="Notification Email">
+    <select name="paymentAccount" aria-label="Payment Account">
+      <option>ACC-MAIN</option><option>ACC-SOUTH</option>
+    </select>
+  </fieldset>
+  <button type="submit" class="ups-cta_primary" id="btnNext">Next</button>
+</form>`);
+}
+
+function reviewPage(fields: Record<string, string>): string {
+  const rows = Object.entries(fields)
+    .map(([key, value]) => `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("");
+  const hidden = Object.entries(fields)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join("");
+
+  return page("Review Collection", `
+<h1>Review your collection</h1>
+<form method="post" action="/pickup/confirm">
+  ${hidden}
+  <button type="submit" class="ups-cta_primary" id="btnSubmit">Schedule Pickup</button>
+  <a href="/pickup/schedule">Back</a>
+</form>
+<table>${rows}</table>`);
+}
+
+function confirmationPage(booking: FixtureBooking): string {
+  return page("Collection Scheduled", `
+<h1>Collection Scheduled</h1>
+<p>Confirmation: ${booking.confirmationNumber}</p>
+<p>Collection Date: ${formatDate(booking.fields.collectionDate)}</p>
+<p>Total Charges: 12.50 GBP</p>`);
+}
+
+function detailsPage(booking: FixtureBooking): string {
+  const id = escapeHtml(booking.confirmationNumber);
+  return page("Collection Details", `
+<h1>Collection Details</h1>
+<section class="pickup-detail">
+  <p>Confirmation: ${id}</p>
+  <p>Collection Date: ${formatDate(booking.fields.collectionDate)}</p>
+</section>
+<button type="button" onclick="document.getElementById('cancel-dialog').style.display='block'">Cancel Pickup</button>
+<div id="cancel-dialog" role="dialog" style="display:none">
+  <p>Are you sure you want to cancel this collection?</p>
+  <form method="post" action="/pickup/cancel">
+    <input type="hidden" name="confirmationNumber" value="${id}">
+    <button type="submit">Yes</button>
+  </form>
+</div>`);
+}
+
+async function readForm(req: IncomingMessage): Promise<Record<string, string>> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return Object.fromEntries(new URLSearchParams(body));
+}
+
+function send(res: ServerResponse, status: number, html: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "Content-Type": "text/html; charset=utf-8", ...headers });
+  res.end(html);
+}
+
+/** Starts the fixture server on a random local port. */
+export async function startFixtureServer(): Promise<FixtureServer> {
+  const bookings: FixtureBooking[] = [];
+  const dates = Array.from({ length: 14 }, (_, i) => {
+    const d = new Date();
+    d.setUTCDate(d.getUTCDate() + i);
+    return d.toISOString().split("T")[0];
+  });
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    const loggedIn = (req.headers.cookie || "").includes("ups_session=1");
+
+    if (url.pathname === "/lasso/login" && req.method === "GET") {
+      return send(res, 200, loginPage());
+    }
+    if (url.pathname === "/lasso/identifier" && req.method === "POST") {
+      const form = await readForm(req);
+      return send(res, 200, passwordPage(form.username || ""));
+    }
+    if (url.pathname === "/lasso/authenticate" && req.method === "POST") {
+      const form = await readForm(req);
+      if (form.username !== FIXTURE_USERNAME || form.password !== FIXTURE_PASSWORD) {
+        return send(res, 200, passwordPage(form.username || "", "Incorrect username or password."));
+      }
+      return send(res, 302, "", { Location: "/pickup/schedule", "Set-Cookie": "ups_session=1; Path=/" });
+    }
+
+    if (url.pathname.startsWith("/pickup/") && !loggedIn) {
+      return send(res, 302, "", { Location: "/lasso/login" });
+    }
+    if (url.pathname === "/pickup/schedule" && req.method === "GET") {
+      return send(res, 200, schedulePage(dates));
+    }
+    if (url.pathname === "/pickup/review" && req.method === "POST") {
+      return send(res, 200, reviewPage(await readForm(req)));
+    }
+    if (url.pathname === "/pickup/confirm" && req.method === "POST") {
+      const booking = {
+        confirmationNumber: `2929602E${String(bookings.length + 1).padStart(2, "0")}CP`,
+        fields: await readForm(req),
+      };
+      bookings.push(booking);
+      return send(res, 200, confirmationPage(booking));
+    }
+    if (url.pathname === "/pickup/history" && req.method === "GET") {
+      const rows = bookings
+        .filter((b) => !b.cancelled)
+        .map((b) => `<tr><td><a href="/pickup/details?id=${b.confirmationNumber}">${b.confirmationNumber}</a></td>`
+          + `<td>${formatDate(b.fields.collectionDate)}</td></tr>`)
+        .join("");
+      return send(res, 200, page("Collection History", `<h1>Collection History</h1><table>${rows}</table>`));
+    }
+    if (url.pathname === "/pickup/details" && req.method === "GET") {
+      const booking = bookings.find((b) => b.confirmationNumber === url.searchParams.get("id") && !b.cancelled);
+      return booking ? send(res, 200, detailsPage(booking)) : send(res, 404, page("Not Found", "<h1>Not Found</h1>"));
+    }
+    if (url.pathname === "/pickup/cancel" && req.method === "POST") {
+      const form = await readForm(req);
+      const booking = bookings.find((b) => b.confirmationNumber === form.confirmationNumber && !b.cancelled);
+      if (!booking) {
+        return send(res, 404, page("Not Found", "<h1>Not Found</h1>"));
+      }
+      booking.cancelled = true;
+      return send(res, 200, page("Collection Cancelled", `
+<h1>Collection Cancelled</h1>
+<p>Collection ${booking.confirmationNumber} has been cancelled.</p>`));
+    }
+
+    send(res, 404, page("Not Found", "<h1>Not Found</h1>"));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    urls: {
+      login: `${baseUrl}/lasso/login`,
+      form: `${baseUrl}/pickup/schedule`,
+      history: `${baseUrl}/pickup/history`,
+    },
+    dates,
+    bookings,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,105 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { appendLedgerEntry } from "../ledger.js";
+import { buildCalendar, foldLine } from "../ics.js";
+import type { FormState } from "../types.js";
+import { FIXTURE_PROFILE, FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+const formState: FormState = {
+  profile: "south",
+  date: "2026-10-27",
+  packages: 2,
+  weight: 20,
+  earliestTime: "13:00",
+  latestTime: "18:00",
+  specialInstructions: "Door code * 123456 #",
+  company: "Fixture Ltd",
+  address: "1 Test Street, Unit 4",
+  city: "Testville",
+  postalCode: "TE1 1ST",
+  telephone: "01234 567890",
+  collectFrom: "Reception",
+  email: "logistics@example.com",
+  paymentAccount: "ACC-SOUTH",
+};
+
+describe("ics export", () => {
+  it("writes the window in London time with the confirmation number as UID", () => {
+    const ics = buildCalendar([{ confirmationNumber: "PRN123", formState }], "PUBLISH", new Date("2026-10-19T10:00:00Z"));
+    const lines = ics.split("\r\n");
+
+    assert.ok(ics.endsWith("\r\n"));
+    assert.ok(lines.includes("METHOD:PUBLISH"));
+    assert.ok(lines.includes("TZID:Europe/London"));
+    assert.ok(lines.includes("UID:PRN123"));
+    assert.ok(lines.includes("DTSTAMP:20261019T100000Z"));
+    assert.ok(lines.includes("DTSTART;TZID=Europe/London:20261027T130000"));
+    assert.ok(lines.includes("DTEND;TZID=Europe/London:20261027T180000"));
+    assert.ok(lines.includes("LOCATION:Fixture Ltd\\, 1 Test Street\\, Unit 4\\, Testville\\, TE1 1ST"));
+    assert.ok(lines.includes("STATUS:CONFIRMED"));
+    assert.doesNotMatch(ics, /123456 #/);
+    assert.ok(lines.every((line) => Buffer.byteLength(line) <= 75));
+  });
+
+  it("writes a cancellation for the same UID", () => {
+    const ics = buildCalendar([{ confirmationNumber: "PRN123", formState }], "CANCEL");
+    assert.match(ics, /METHOD:CANCEL\r\n/);
+    assert.match(ics, /UID:PRN123\r\n/);
+    assert.match(ics, /STATUS:CANCELLED\r\nSEQUENCE:1\r\n/);
+  });
+
+  it("folds long lines without splitting characters", () => {
+    const folded = foldLine(`DESCRIPTION:${"é".repeat(60)}`);
+    const parts = folded.split("\r\n ");
+    assert.ok(parts.length > 1);
+    assert.ok(parts.every((part, index) => Buffer.byteLength(part) <= (index === 0 ? 75 : 74)));
+    assert.equal(parts.join(""), `DESCRIPTION:${"é".repeat(60)}`);
+  });
+});
+
+describe("export-ics", () => {
+  let config: FixtureConfig;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  before(async () => {
+    config = await withFixtureConfig({ profiles: { south: { ...FIXTURE_PROFILE, address: "1 Test Street, Unit 4" } } });
+    ({ UPSClient } = config);
+    const { ledgerPath } = config;
+
+    const entry = { operation: "book", screenshots: {} };
+    appendLedgerEntry(ledgerPath, { ...entry, timestamp: "2026-10-19T09:00:00Z", status: "booked", confirmationNumber: "PRN1", formState });
+    appendLedgerEntry(ledgerPath, {
+      ...entry,
+      timestamp: "2026-10-19T09:05:00Z",
+      status: "booked",
+      confirmationNumber: "PRN2",
+      formState: { ...formState, date: "2026-10-28" },
+    });
+    appendLedgerEntry(ledgerPath, { ...entry, timestamp: "2026-10-19T09:10:00Z", status: "failed", confirmationNumber: null, formState });
+    appendLedgerEntry(ledgerPath, {
+      ...entry,
+      operation: "cancel",
+      timestamp: "2026-10-19T09:15:00Z",
+      status: "cancelled",
+      confirmationNumber: "PRN2",
+      formState: { ...formState, date: "2026-10-28" },
+    });
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("writes booked collections and marks cancelled ones", async () => {
+    const result = await new UPSClient().exportIcs({ from: "2026-10-20" });
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.path, join(config.artifactDir, "collections.ics"));
+    assert.deepEqual(result.events.map((event: any) => [event.uid, event.status]), [["PRN1", "confirmed"], ["PRN2", "cancelled"]]);
+
+    const ics = readFileSync(result.path, "utf-8");
+    assert.equal(ics.match(/BEGIN:VEVENT/g)?.length, 2);
+    assert.match(ics, /UID:PRN2\r\n[\s\S]*STATUS:CANCELLED/);
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_LAUNCH_ARGS, parseViewport, resolveLaunchProfile } from "../launch-profile.js";
+
+const config = {
+  defaultLaunchProfile: "server",
+  launchProfiles: {
+    server: { headless: true, viewport: { width: 1920, height: 1080 }, locale: "en-GB", args: ["--disable-gpu"] },
+    desk: { headless: false },
+  },
+};
+
+describe("launch profiles", () => {
+  const headlessEnv = process.env.UPS_HEADLESS;
+
+  afterEach(() => {
+    if (headlessEnv === undefined) {
+      delete process.env.UPS_HEADLESS;
+    } else {
+      process.env.UPS_HEADLESS = headlessEnv;
+    }
+  });
+
+  it("defaults to a headed 1280x800 browser", () => {
+    delete process.env.UPS_HEADLESS;
+    const profile = resolveLaunchProfile({});
+    assert.equal(profile.name, "default");
+    assert.equal(profile.headless, false);
+    assert.deepEqual(profile.viewport, { width: 1280, height: 800 });
+    assert.deepEqual(profile.args, DEFAULT_LAUNCH_ARGS);
+    assert.equal(profile.stealth, true);
+  });
+
+  it("layers the default profile, then flags", () => {
+    delete process.env.UPS_HEADLESS;
+    const profile = resolveLaunchProfile(config, { headless: false, viewport: "1024x768", args: ["--mute-audio"] });
+    assert.equal(profile.name, "server");
+    assert.equal(profile.headless, false);
+    assert.deepEqual(profile.viewport, { width: 1024, height: 768 });
+    assert.equal(profile.locale, "en-GB");
+    assert.deepEqual(profile.args, [...DEFAULT_LAUNCH_ARGS, "--disable-gpu", "--mute-audio"]);
+  });
+
+  it("lets UPS_HEADLESS override a headed profile but not a flag", () => {
+    process.env.UPS_HEADLESS = "1";
+    assert.equal(resolveLaunchProfile(config, { profile: "desk" }).headless, true);
+    assert.equal(resolveLaunchProfile(config, { profile: "desk", headless: false }).headless, false);
+  });
+
+  it("rejects unknown profiles and bad viewports", () => {
+    assert.throws(() => resolveLaunchProfile(config, { profile: "laptop" }), { code: "INVALID_INPUT", message: /Available: server, desk/ });
+    assert.throws(() => parseViewport("big"), { code: "INVALID_INPUT" });
+    assert.deepEqual(parseViewport("1920 x 1080"), { width: 1920, height: 1080 });
+  });
+});
@@ -0,0 +1,60 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { appendLedgerEntry, findActiveBookings, LedgerEntry } from "../ledger.js";
+import type { FormState } from "../types.js";
+
+const formState: FormState = {
+  profile: "warehouse",
+  date: "2026-10-20",
+  packages: 1,
+  weight: 10,
+  earliestTime: "12:00",
+  latestTime: "18:00",
+  company: "Fixture Ltd",
+  address: "1 Test Street",
+  city: "Testville",
+  postalCode: "TE1 1ST",
+  telephone: "01234 567890",
+  collectFrom: "Front Door",
+  email: "logistics@example.com",
+  paymentAccount: "ACC-MAIN",
+};
+
+function entry(overrides: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    timestamp: "2026-10-19T09:00:00.000Z",
+    operation: "book",
+    status: "booked",
+    confirmationNumber: "PRN1",
+    formState,
+    screenshots: {},
+    ...overrides,
+  };
+}
+
+describe("findActiveBookings", () => {
+  const dir = mkdtempSync(join(tmpdir(), "ups-ledger-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("matches bookings for the same date and address", () => {
+    const path = join(dir, "same.jsonl");
+    appendLedgerEntry(path, entry({}));
+    appendLedgerEntry(path, entry({ status: "failed", confirmationNumber: null }));
+
+    const found = findActiveBookings(path, { date: "2026-10-20", address: "1 Test  Street", postalCode: "te11st" });
+    assert.deepEqual(found.map((e) => e.confirmationNumber), ["PRN1"]);
+  });
+
+  it("ignores other dates, other addresses and cancelled bookings", () => {
+    const path = join(dir, "other.jsonl");
+    appendLedgerEntry(path, entry({ confirmationNumber: "PRN2", formState: { ...formState, date: "2026-10-21" } }));
+    appendLedgerEntry(path, entry({ confirmationNumber: "PRN3", formState: { ...formState, postalCode: "AB1 2CD" } }));
+    appendLedgerEntry(path, entry({ confirmationNumber: "PRN4" }));
+    appendLedgerEntry(path, entry({ operation: "cancel", status: "cancelled", confirmationNumber: "PRN4" }));
+
+    assert.deepEqual(findActiveBookings(path, formState), []);
+  });
+});
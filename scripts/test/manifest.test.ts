@@ -0,0 +1,124 @@
+/**
+ * Parcel manifest tests
+ *
+ * Reads JSON and CSV manifests and plans bookings from them; no browser
+ * is launched.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { UPSError } from "../errors.js";
+import { checkParcels, readManifest } from "../manifest.js";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+describe("parcel manifest", () => {
+  let config: FixtureConfig;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  const write = (name: string, contents: string) => {
+    const path = join(config.workDir, name);
+    writeFileSync(path, contents);
+    return path;
+  };
+
+  before(async () => {
+    config = await withFixtureConfig();
+    ({ UPSClient } = config);
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("totals a JSON manifest", () => {
+    const path = write("parcels.json", JSON.stringify({
+      parcels: [
+        { weight: 12.5, length: 60, width: 40, height: 40, reference: "PO-1" },
+        { weight: 4.2, length: 30, width: 30, height: 20, quantity: 2 },
+      ],
+    }));
+    const manifest = readManifest(path);
+
+    assert.equal(manifest.packages, 3);
+    assert.equal(manifest.totalWeight, 20.9);
+    assert.equal(manifest.parcels[0].reference, "PO-1");
+  });
+
+  it("reads a CSV manifest, dimensions optional", () => {
+    const path = write("parcels.csv", "Weight,Length,Width,Height,Reference\n10,,,,\n5.5,50,40,30,\"Box B\"\n");
+    const manifest = readManifest(path);
+
+    assert.equal(manifest.packages, 2);
+    assert.equal(manifest.totalWeight, 15.5);
+    assert.deepEqual(manifest.parcels[0], { weight: 10 });
+    assert.deepEqual(manifest.parcels[1], { weight: 5.5, length: 50, width: 40, height: 30, reference: "Box B" });
+  });
+
+  it("lists every bad row", () => {
+    const path = write("bad.csv", "weight,length,width,height,quantity\n,10,10,10,1\n-3,,,,\n5,20,20,,1.5\n");
+    assert.throws(() => readManifest(path), (error: UPSError) => {
+      assert.equal(error.code, "INVALID_INPUT");
+      assert.deepEqual(error.details.problems, [
+        "Manifest row 1: weight is required",
+        'Manifest row 2: weight must be a positive number (got "-3")',
+        "Manifest row 3: give length, width and height together",
+        "Manifest row 3: quantity must be a whole number",
+      ]);
+      return true;
+    });
+    assert.throws(() => readManifest(write("unknown.csv", "weight,colour\n5,red\n")), /unknown column\(s\) colour/);
+  });
+
+  it("flags parcels over the UPS limits", () => {
+    const { problems, warnings } = checkParcels([
+      { weight: 75 },
+      { weight: 40, length: 100, width: 50, height: 50, reference: "Rack" },
+      { weight: 20, length: 280, width: 10, height: 10 },
+      { weight: 20, length: 150, width: 80, height: 60 },
+    ]);
+
+    assert.deepEqual(problems, [
+      "Parcel 1 weighs 75 kg, over the UPS limit of 70 kg",
+      "Parcel 3 is 280 cm long, over the UPS limit of 274 cm",
+      "Parcel 4 measures 430 cm in length plus girth, over the UPS limit of 400 cm",
+    ]);
+    assert.deepEqual(warnings, ["Parcel 2 (Rack) weighs 40 kg and needs a heavy-package label"]);
+  });
+
+  it("books the manifest's totals and echoes it in formState", async () => {
+    const path = write("book.json", JSON.stringify([{ weight: 12.5 }, { weight: 8.1 }]));
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().book({ date, doorCode: "123456", manifest: path, dryRun: true });
+
+    assert.equal(result.success, true);
+    assert.equal(result.formState.packages, 2);
+    assert.equal(result.formState.weight, 21);
+    assert.equal(result.formState.manifest.totalWeight, 20.6);
+    assert.deepEqual(result.formState.manifest.parcels, [{ weight: 12.5 }, { weight: 8.1 }]);
+    assert.ok(result.warnings.some((warning: string) => /only the package count and total weight \(2 package\(s\), 21 kg\)/.test(warning)));
+    assert.ok(!result.steps.some((step: string) => /dimensions/.test(step)), "no per-parcel fields are filled");
+  });
+
+  it("refuses over-limit parcels and counts that disagree with the manifest", async () => {
+    const path = write("heavy.json", JSON.stringify([{ weight: 80 }]));
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().fillForm({ date, doorCode: "123456", manifest: path, packages: 2, dryRun: true });
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, "INVALID_INPUT");
+    assert.deepEqual(result.problems, [
+      "--packages 2 does not match the manifest's 1 parcel(s)",
+      "Parcel 1 weighs 80 kg, over the UPS limit of 70 kg",
+    ]);
+  });
+
+  it("warns when packages and weight fall back to the defaults", async () => {
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+    const result = await new UPSClient().fillForm({ date, doorCode: "123456", dryRun: true });
+
+    assert.ok(result.warnings.includes("No packages, weight or manifest given; using 1 package(s), 10 kg"));
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Pickup API driver tests
+ *
+ * Books, previews and cancels a collection through the "api" driver
+ * against a local mock of the UPS OAuth and Pickup endpoints.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { readFileSync } from "fs";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { PickupApiDriver } from "../pickup-api-driver.js";
+import type { Config } from "../types.js";
+import { FIXTURE_PROFILE, FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+const CLIENT_ID = "mock-client";
+const CLIENT_SECRET = "mock-secret";
+const ACCESS_TOKEN = "mock-token";
+
+interface Call {
+  method: string;
+  path: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+describe("pickup API driver", () => {
+  let server: Server;
+  let baseUrl: string;
+  let config: FixtureConfig;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+  const calls: Call[] = [];
+  const pending: { PRN: string; PickupDate: string }[] = [];
+  // Makes the mock behave like a failing gateway for the pickup endpoints
+  let outage: "gateway" | "stall" | null = null;
+  const [date, otherDate] = new CollectionCalendar().nextDates(2).dates;
+
+  before(async () => {
+    server = createServer(async (request, response) => {
+      let text = "";
+      for await (const chunk of request) {
+        text += chunk;
+      }
+      const path = request.url || "/";
+      const json = text && request.headers["content-type"] === "application/json" ? JSON.parse(text) : text;
+      calls.push({ method: request.method!, path, headers: request.headers, body: json });
+      const reply = (status: number, body: unknown) => {
+        response.writeHead(status, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(body));
+      };
+
+      if (path === "/security/v1/oauth/token") {
+        const expected = `Basic ${Buffer.from(`${CLIENT_ID}:${CLIENT_SECRET}`).toString("base64")}`;
+        if (request.headers.authorization !== expected) {
+          return reply(401, { response: { errors: [{ code: "250003", message: "Invalid Access License number" }] } });
+        }
+        return reply(200, { access_token: ACCESS_TOKEN, expires_in: "14399" });
+      }
+      if (outage === "gateway") {
+        response.writeHead(502, { "Content-Type": "text/html" });
+        return response.end("<html><body><h1>502 Bad Gateway</h1></body></html>");
+      }
+      if (outage === "stall") {
+        return;
+      }
+      if (request.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+        return reply(401, { response: { errors: [{ code: "250002", message: "Invalid Authentication Information." }] } });
+      }
+
+      if (path === "/api/shipments/v2409/pickup/oncall" && request.method === "POST") {
+        return reply(200, { PickupRateResponse: { RateResult: { GrandTotalOfAllCharge: "12.50", CurrencyCode: "GBP" } } });
+      }
+      if (path === "/api/pickupcreation/v2409/pickup" && request.method === "POST") {
+        const prn = `2929602E${String(pending.length + 1).padStart(2, "0")}P`;
+        pending.push({ PRN: prn, PickupDate: json.PickupCreationRequest.PickupDateInfo.PickupDate });
+        return reply(200, {
+          PickupCreationResponse: { PRN: prn, RateResult: { GrandTotalOfAllCharge: "12.50", CurrencyCode: "GBP" } },
+        });
+      }
+      if (path === "/api/shipments/v2409/pickup/oncall" && request.method === "GET") {
+        return reply(200, { PickupPendingStatusResponse: { PendingStatus: pending } });
+      }
+      if (path === "/api/shipments/v2409/pickup/02" && request.method === "DELETE") {
+        const index = pending.findIndex((p) => p.PRN === request.headers.prn);
+        if (index < 0) {
+          return reply(400, { response: { errors: [{ code: "9510130", message: "Pickup not found" }] } });
+        }
+        pending.splice(index, 1);
+        return reply(200, { PickupCancelResponse: { Response: { ResponseStatus: { Code: "1", Description: "Success" } } } });
+      }
+      reply(404, { response: { errors: [{ code: "404", message: "Not Found" }] } });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    config = await withFixtureConfig({
+      driver: "api",
+      api: { baseUrl, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET },
+    });
+    ({ UPSClient } = config);
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    config.cleanup();
+  });
+
+  it("rates on fill-form and creates the pickup on submit", async () => {
+    const client = new UPSClient();
+    calls.length = 0;
+
+    const fill = await client.fillForm({ date, packages: 2, weight: 25, doorCode: "123456789" });
+    assert.equal(fill.success, true, fill.message);
+    assert.equal(fill.rate.totalCharges, "12.50 GBP");
+    assert.deepEqual(calls.map((call) => `${call.method} ${call.path}`), [
+      "POST /security/v1/oauth/token",
+      "POST /api/shipments/v2409/pickup/oncall",
+    ]);
+    assert.equal(calls[0].body, "grant_type=client_credentials");
+    const rate = calls[1].body.PickupRateRequest;
+    assert.equal(rate.PickupDateInfo.PickupDate, date.replace(/-/g, ""));
+    assert.equal(rate.PickupDateInfo.ReadyTime, "1200");
+    assert.equal(rate.PickupAddress.PostalCode, FIXTURE_PROFILE.postalCode);
+
+    const submit = await client.submit();
+    assert.equal(submit.success, true, submit.message);
+    assert.equal(submit.confirmation.confirmationNumber, pending.at(-1)!.PRN);
+    assert.equal(submit.confirmation.totalCharges, "12.50 GBP");
+    const create = calls.at(-1)!;
+    assert.equal(create.path, "/api/pickupcreation/v2409/pickup");
+    assert.equal(create.headers.authorization, `Bearer ${ACCESS_TOKEN}`);
+    assert.equal(create.body.PickupCreationRequest.Shipper.Account.AccountNumber, FIXTURE_PROFILE.paymentAccount);
+    assert.deepEqual(create.body.PickupCreationRequest.TotalWeight, { Weight: "25", UnitOfMeasurement: "KGS" });
+    assert.equal(create.body.PickupCreationRequest.PickupPiece[0].Quantity, "2");
+    assert.equal(create.body.PickupCreationRequest.SpecialInstruction, "Door code * 123456789 #");
+
+    const entry = JSON.parse(readFileSync(config.ledgerPath, "utf-8").trim().split("\n").at(-1)!);
+    assert.equal(entry.status, "booked");
+    assert.equal(entry.confirmationNumber, submit.confirmation.confirmationNumber);
+  });
+
+  it("previews a pickup in the pending list, then cancels it", async () => {
+    const client = new UPSClient();
+    const booked = await client.book({ date: otherDate, doorCode: "123456789" });
+    assert.equal(booked.success, true, booked.message);
+    const confirmation = booked.confirmation.confirmationNumber;
+
+    const preview = await client.cancel({ confirmation });
+    assert.equal(preview.success, true, preview.message);
+    assert.equal(preview.stage, "preview");
+    assert.equal(calls.at(-1)!.headers.accountnumber, FIXTURE_PROFILE.paymentAccount);
+    assert.ok(pending.some((p) => p.PRN === confirmation), "preview must not cancel");
+
+    const cancelled = await client.cancel({ confirmation, confirm: true });
+    assert.equal(cancelled.success, true, cancelled.message);
+    assert.equal(cancelled.stage, "cancelled");
+    assert.equal(calls.at(-1)!.method, "DELETE");
+    assert.equal(calls.at(-1)!.headers.prn, confirmation);
+    assert.ok(!pending.some((p) => p.PRN === confirmation));
+
+    const again = await client.cancel({ confirmation });
+    assert.equal(again.code, "BOOKING_NOT_FOUND");
+  });
+
+  it("maps a rejected client secret to CREDENTIALS_REJECTED", async () => {
+    const driver = new PickupApiDriver({
+      ...(JSON.parse(readFileSync(config.configPath, "utf-8")) as Config),
+      api: { baseUrl, clientId: CLIENT_ID, clientSecret: "wrong" },
+    });
+    const formState = (await new UPSClient().fillForm({ date, doorCode: "123456789", dryRun: true })).formState;
+
+    const result = await driver.fillForm(formState);
+    assert.equal(result.error, true);
+    assert.equal(result.code, "CREDENTIALS_REJECTED");
+    assert.match(result.message, /OAuth token request failed: 401/);
+  });
+
+  it("reports other API errors as API_REQUEST_FAILED with UPS's message", async () => {
+    const client = new UPSClient();
+    const result = await client.cancel({ confirmation: "NOSUCHPRN", confirm: true });
+    assert.equal(result.code, "INVALID_STATE", "confirm still needs a preview");
+
+    const driver = new PickupApiDriver(JSON.parse(readFileSync(config.configPath, "utf-8")) as Config);
+    const missing = await driver.cancel("NOSUCHPRN", true);
+    assert.equal(missing.code, "API_REQUEST_FAILED");
+    assert.match(missing.message, /\(400\): 9510130: Pickup not found/);
+  });
+
+  it("reports a gateway's HTML error page and a stalled call with the status or timeout", async () => {
+    const driver = new PickupApiDriver({
+      ...(JSON.parse(readFileSync(config.configPath, "utf-8")) as Config),
+      api: { baseUrl, clientId: CLIENT_ID, clientSecret: CLIENT_SECRET, timeoutSeconds: 0.3 },
+    });
+    const formState = (await new UPSClient().fillForm({ date, doorCode: "123456789", dryRun: true })).formState;
+
+    try {
+      outage = "gateway";
+      const gateway = await driver.fillForm(formState);
+      assert.equal(gateway.code, "API_REQUEST_FAILED");
+      assert.match(gateway.message, /failed \(502\): <html>.*502 Bad Gateway/);
+
+      outage = "stall";
+      const stalled = await driver.fillForm(formState);
+      assert.equal(stalled.code, "API_REQUEST_FAILED");
+      assert.match(stalled.message, /UPS API POST \/shipments\/v2409\/pickup\/oncall got no answer within 0.3s$/);
+
+      const create = await driver.submit(formState);
+      assert.match(create.message, /\/pickupcreation\/v2409\/pickup got no answer within 0.3s; it may still have gone through/);
+    } finally {
+      outage = null;
+    }
+  });
+});
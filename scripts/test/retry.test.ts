@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { UPSError, errorCodeOf } from "../errors.js";
+import { DEFAULT_RETRY_POLICY, RetryRecord, backoffDelay, retryPolicy, withRetry } from "../retry.js";
+
+const noWait = async () => {};
+
+describe("retry policy", () => {
+  it("layers step settings over the global ones", () => {
+    const policy = retryPolicy({ attempts: 5, steps: { login: { attempts: 1 } } }, "login");
+    assert.equal(policy.attempts, 1);
+    assert.equal(policy.backoffMs, DEFAULT_RETRY_POLICY.backoffMs);
+    assert.equal(retryPolicy({ attempts: 5, steps: { login: { attempts: 1 } } }, "fill").attempts, 5);
+  });
+
+  it("doubles the wait up to the cap", () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, backoffMs: 1000, maxBackoffMs: 3000 };
+    assert.deepEqual([1, 2, 3].map((attempt) => backoffDelay(policy, attempt)), [1000, 2000, 3000]);
+  });
+
+  it("retries listed errors and records each retry", async () => {
+    const log: RetryRecord[] = [];
+    const waits: number[] = [];
+    const result = await withRetry("navigation", DEFAULT_RETRY_POLICY, async (attempt) => {
+      if (attempt < 3) {
+        throw new Error("page.goto: Timeout 60000ms exceeded.");
+      }
+      return "loaded";
+    }, log, async (ms) => { waits.push(ms); });
+
+    assert.equal(result, "loaded");
+    assert.deepEqual(log.map((entry) => [entry.step, entry.attempt, entry.code]), [
+      ["navigation", 1, "PAGE_TIMEOUT"],
+      ["navigation", 2, "PAGE_TIMEOUT"],
+    ]);
+    assert.deepEqual(waits, [2000, 4000]);
+  });
+
+  it("fails at once on other errors and after the last try", async () => {
+    const log: RetryRecord[] = [];
+    let tries = 0;
+    await assert.rejects(withRetry("login", DEFAULT_RETRY_POLICY, async () => {
+      tries++;
+      throw new UPSError("CREDENTIALS_REJECTED", "Login failed");
+    }, log, noWait), { code: "CREDENTIALS_REJECTED" });
+    assert.equal(tries, 1);
+
+    await assert.rejects(withRetry("fill", { ...DEFAULT_RETRY_POLICY, attempts: 2 }, async () => {
+      throw new UPSError("FORM_FIELD_NOT_FOUND", "company missing");
+    }, log, noWait), { code: "FORM_FIELD_NOT_FOUND" });
+    assert.equal(log.length, 1);
+  });
+
+  it("recognises Playwright timeouts", () => {
+    assert.equal(errorCodeOf(new Error("locator.click: Timeout 30000ms exceeded.")), "PAGE_TIMEOUT");
+    assert.equal(errorCodeOf(new Error("Target page, context or browser has been closed")), "BROWSER_CRASHED");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Recurring schedule tests
+ *
+ * Picks slots from a fixed clock and runs run-schedule against a ledger
+ * that already holds the booking, so no browser is launched.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { appendLedgerEntry } from "../ledger.js";
+import { nextSlot } from "../schedules.js";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+describe("next schedule slot", () => {
+  const calendar = new CollectionCalendar({ closures: [{ date: "2026-10-19", reason: "Stocktake" }] });
+
+  it("skips closed days to the next of the rule's weekdays", () => {
+    // Monday 09:00 in London
+    const slot = nextSlot({ weekdays: [1, 3] }, calendar, new Date("2026-10-19T08:00:00Z"));
+    assert.equal(slot.date, "2026-10-21");
+    assert.deepEqual(slot.passedOver, [{ date: "2026-10-19", reason: "Closure: Stocktake" }]);
+  });
+
+  it("moves past today after the cutoff", () => {
+    // Wednesday 15:00 in London
+    const slot = nextSlot({ weekdays: [3] }, calendar, new Date("2026-10-21T14:00:00Z"));
+    assert.equal(slot.date, "2026-10-28");
+    assert.match(slot.passedOver[0].reason, /cutoff/);
+  });
+});
+
+describe("run-schedule", () => {
+  let config: FixtureConfig;
+  let ledgerPath: string;
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  before(async () => {
+    config = await withFixtureConfig({
+      schedules: {
+        weekdays: { weekdays: [1, 2, 3, 4, 5], profile: "south", packages: 2, weight: 20, earliestTime: "13:00", doorCode: "123456" },
+        paused: { weekdays: [1, 2, 3, 4, 5], profile: "south", enabled: false },
+      },
+    });
+    ({ ledgerPath, UPSClient } = config);
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("reports the next slot as due in a dry run", async () => {
+    const result = await new UPSClient().runSchedule({ dryRun: true });
+    assert.equal(result.success, true, result.message);
+    const due = result.outcomes.filter((outcome: any) => outcome.status === "due");
+    assert.deepEqual(due.map((outcome: any) => outcome.schedule), ["weekdays"]);
+    assert.equal(due[0].date, new CollectionCalendar().nextDate());
+  });
+
+  it("skips a slot that is already booked", async () => {
+    const date = new CollectionCalendar().nextDate();
+    const { formState } = await new UPSClient().book({ profile: "south", date, doorCode: "123456", dryRun: true });
+    appendLedgerEntry(ledgerPath, {
+      timestamp: new Date().toISOString(),
+      operation: "book",
+      status: "booked",
+      confirmationNumber: "PRN123",
+      formState,
+      screenshots: {},
+    });
+
+    const result = await new UPSClient().runSchedule();
+    assert.equal(result.success, true, result.message);
+    assert.equal(result.booked, 0);
+    const slot = result.outcomes.find((outcome: any) => outcome.date === date);
+    assert.equal(slot.status, "skipped");
+    assert.equal(slot.confirmationNumber, "PRN123");
+  });
+
+  it("does not rebook a slot that was cancelled", async () => {
+    const date = new CollectionCalendar().nextDate();
+    const { formState } = await new UPSClient().book({ profile: "south", date, doorCode: "123456", dryRun: true });
+    const record = (status: "booked" | "cancelled", confirmationNumber: string) => appendLedgerEntry(ledgerPath, {
+      timestamp: new Date().toISOString(),
+      operation: status === "booked" ? "book" : "cancel",
+      status,
+      confirmationNumber,
+      formState,
+      screenshots: {},
+    });
+    record("booked", "PRN456");
+    record("cancelled", "PRN456");
+    record("cancelled", "PRN123");
+
+    const result = await new UPSClient().runSchedule({ dryRun: true });
+    assert.equal(result.success, true, result.message);
+    const slot = result.outcomes.find((outcome: any) => outcome.date === date);
+    assert.equal(slot.status, "skipped");
+    assert.match(slot.reason, /^Cancelled/);
+
+    // Booked again by hand since: skipped as booked
+    record("booked", "PRN789");
+    const again = await new UPSClient().runSchedule({ dryRun: true });
+    const rebooked = again.outcomes.find((outcome: any) => outcome.date === date);
+    assert.equal(rebooked.reason, "Already booked");
+    assert.equal(rebooked.confirmationNumber, "PRN789");
+  });
+
+  it("rejects an unknown schedule", async () => {
+    await assert.rejects(new UPSClient().runSchedule({ schedule: "weekends" }), { code: "INVALID_INPUT", message: /Available: weekdays, paused/ });
+  });
+});
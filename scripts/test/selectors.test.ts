@@ -0,0 +1,42 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DEFAULT_STEP_SELECTORS, SELECTORS_VERSION, SelectorHealth, resolveSelectors } from "../selectors.js";
+
+describe("selector registry", () => {
+  it("replaces only the overridden steps and marks the version", () => {
+    const registry = resolveSelectors({ steps: { formNext: ["#continue"] }, fields: { city: ["Town/City"] } });
+
+    assert.deepEqual(registry.steps.formNext, ["#continue"]);
+    assert.deepEqual(registry.steps.scheduleButton, DEFAULT_STEP_SELECTORS.scheduleButton);
+    assert.deepEqual(registry.fields.city, ["Town/City"]);
+    assert.equal(registry.version, `${SELECTORS_VERSION}+config`);
+    assert.deepEqual(registry.overridden, ["formNext", "field.city"]);
+    assert.equal(resolveSelectors().version, SELECTORS_VERSION);
+  });
+
+  it("reports fallback matches as drift and misses as missing", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ups-test-"));
+    const reportPath = join(dir, "health.json");
+    const health = new SelectorHealth(resolveSelectors(), reportPath);
+
+    try {
+      health.record("loginUsername", ["#a", "#b", "#c"], 0);
+      health.record("formNext", ["#a", "#b", "#c"], 2);
+      health.record("cookieAccept", ["#a"], -1, true);
+      health.record("scheduleButton", ["#a", "#b"], -1);
+
+      const summary = health.save();
+      assert.deepEqual(summary.drift, ["formNext"]);
+      assert.deepEqual(summary.missing, ["scheduleButton"]);
+
+      const report = JSON.parse(readFileSync(reportPath, "utf-8"));
+      assert.equal(report.steps.length, 3, "optional misses are not reported");
+      assert.equal(report.steps[1].matched, "#c");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
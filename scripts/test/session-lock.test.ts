@@ -0,0 +1,92 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { hostname, tmpdir } from "os";
+import { join } from "path";
+
+describe("session lock", () => {
+  let workDir: string;
+  let locks: typeof import("../session-lock.js");
+
+  before(async () => {
+    workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+    // The path is read when the module loads
+    process.env.UPS_LOCK_PATH = join(workDir, "session.lock");
+    locks = await import("../session-lock.js");
+  });
+
+  beforeEach(() => {
+    rmSync(locks.LOCK_PATH, { force: true });
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("fails fast while held and frees the session on release", async () => {
+    const lock = await locks.acquireLock("fill-form");
+    assert.equal(locks.readLock()?.pid, process.pid);
+
+    await assert.rejects(locks.acquireLock("submit"), { code: "SESSION_BUSY", message: /fill-form \(pid \d+/ });
+
+    lock.release();
+    assert.equal(existsSync(locks.LOCK_PATH), false);
+    (await locks.acquireLock("submit")).release();
+  });
+
+  it("waits for the holder to finish", async () => {
+    const lock = await locks.acquireLock("book");
+    setTimeout(() => lock.release(), 300);
+    const next = await locks.acquireLock("cancel", { waitSeconds: 5 });
+    assert.equal(next.info.operation, "cancel");
+    next.release();
+  });
+
+  it("takes over locks from dead processes and expired locks", async () => {
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid!;
+    const now = Date.now();
+    const crashed = {
+      pid: deadPid,
+      host: hostname(),
+      operation: "book",
+      acquiredAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + 60_000).toISOString(),
+    };
+    writeFileSync(locks.LOCK_PATH, JSON.stringify(crashed));
+    assert.match(locks.staleReason(crashed)!, /no longer running/);
+    const lock = await locks.acquireLock("fill-form");
+    assert.deepEqual(lock.recovered, crashed);
+    lock.release();
+
+    const expired = { ...crashed, pid: process.pid, host: "elsewhere", expiresAt: new Date(now - 1000).toISOString() };
+    writeFileSync(locks.LOCK_PATH, JSON.stringify(expired));
+    assert.equal(locks.staleReason({ ...expired, expiresAt: new Date(now + 60_000).toISOString() }), null);
+    const again = await locks.acquireLock("submit");
+    assert.equal(again.recovered?.host, "elsewhere");
+    again.release();
+  });
+
+  it("takes over a lapsed lock whose PID was reused, and renews a held one", async () => {
+    const reused = {
+      pid: process.pid,
+      host: hostname(),
+      operation: "book",
+      acquiredAt: new Date(Date.now() - 900_000).toISOString(),
+      expiresAt: new Date(Date.now() - 300_000).toISOString(),
+    };
+    assert.match(locks.staleReason(reused)!, /^expired at /, "a running PID does not keep a lapsed lock");
+    writeFileSync(locks.LOCK_PATH, JSON.stringify(reused));
+    const recovered = await locks.acquireLock("fill-form");
+    assert.deepEqual(recovered.recovered, reused);
+    recovered.release();
+
+    const lock = await locks.acquireLock("book", { ttlSeconds: 0.3 });
+    const firstExpiry = lock.info.expiresAt;
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    assert.ok(locks.readLock()!.expiresAt > firstExpiry, "the expiry is renewed while held");
+    assert.ok(Date.parse(locks.readLock()!.expiresAt) > Date.now());
+    lock.release();
+    assert.equal(existsSync(locks.LOCK_PATH), false);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Session state machine tests
+ *
+ * Walks the session file through its states and checks that submit and
+ * status follow it, without launching a browser.
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { writeFileSync } from "fs";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+describe("session state", () => {
+  let config: FixtureConfig;
+  let session: typeof import("../session.js");
+  let UPSClient: typeof import("../ups-client.js").UPSClient;
+
+  before(async () => {
+    config = await withFixtureConfig();
+    ({ UPSClient } = config);
+    session = await import("../session.js");
+  });
+
+  beforeEach(() => {
+    session.clearSession();
+  });
+
+  after(() => {
+    config.cleanup();
+  });
+
+  it("follows the booking flow and rejects skipped or repeated steps", () => {
+    for (const state of ["browser-up", "logged-in", "form-filled", "reviewed", "submitted"] as const) {
+      assert.equal(session.transitionSession(state).state, state);
+    }
+    assert.throws(() => session.transitionSession("submitted"), { code: "INVALID_STATE" });
+    assert.throws(() => session.transitionSession("reviewed"), { code: "INVALID_STATE" });
+    assert.equal(session.transitionSession("idle").state, "idle");
+    assert.throws(() => session.transitionSession("reviewed"), /from "idle" to "reviewed"/);
+  });
+
+  it("reads sessions written with the old flags", () => {
+    writeFileSync(config.sessionPath, JSON.stringify({ createdAt: "2026-10-19T09:00:00Z", formFilled: true, loggedIn: true }));
+    const current = session.readSession()!;
+    assert.equal(current.state, "form-filled");
+    assert.equal(current.stateChangedAt, "2026-10-19T09:00:00Z");
+  });
+
+  it("only submits a filled form, and only once", async () => {
+    const client = new UPSClient();
+    const idle = await client.submit();
+    assert.equal(idle.code, "FORM_NOT_FILLED");
+    assert.equal(idle.state, "idle");
+
+    session.transitionSession("form-filled");
+    session.transitionSession("submitted");
+    const again = await client.submit();
+    assert.equal(again.code, "FORM_NOT_FILLED");
+    assert.match(again.message, /already been submitted/);
+  });
+
+  it("refuses to confirm a cancellation that was not previewed", async () => {
+    const client = new UPSClient();
+    const unsaved = await client.cancel({ confirmation: "1Z0000000001", confirm: true });
+    assert.equal(unsaved.error, true);
+    assert.equal(unsaved.code, "INVALID_STATE");
+    assert.match(unsaved.message, /has not been previewed/);
+
+    session.updateSession({ pendingCancellation: "1Z0000000002" });
+    const other = await client.cancel({ confirmation: "1Z0000000001", confirm: true });
+    assert.equal(other.code, "INVALID_STATE");
+    assert.equal(session.readSession()!.pendingCancellation, "1Z0000000002", "the other preview is kept");
+  });
+
+  it("reports state, staleness and an unreachable browser", async () => {
+    session.transitionSession("logged-in", { pageUrl: "https://www.ups.com/lasso/login" });
+    const status = await new UPSClient().status();
+    assert.equal(status.state, "logged-in");
+    assert.equal(status.pageUrl, "https://www.ups.com/lasso/login");
+    assert.equal(status.stale, false);
+    assert.ok(Date.parse(status.staleAt) > Date.now());
+    assert.equal(status.browser.reachable, false);
+    assert.ok(status.nextStates.includes("form-filled"));
+  });
+
+  it("finds the browser behind a DevTools port and reports its page", async () => {
+    // Stands in for Chrome's DevTools HTTP server
+    const devtools = createServer((request, response) => {
+      const port = (devtools.address() as AddressInfo).port;
+      response.setHeader("Content-Type", "application/json");
+      if (request.url === "/json/version") {
+        response.end(JSON.stringify({ webSocketDebuggerUrl: `ws://127.0.0.1:${port}/devtools/browser/fixture` }));
+      } else if (request.url === "/json/list") {
+        response.end(JSON.stringify([{ type: "page", url: "https://wwwapps.ups.com/pickup/schedule" }]));
+      } else {
+        response.statusCode = 404;
+        response.end();
+      }
+    });
+    await new Promise<void>((resolve) => devtools.listen(0, "127.0.0.1", resolve));
+
+    try {
+      const port = (devtools.address() as AddressInfo).port;
+      const wsEndpoint = await session.devtoolsEndpoint(port);
+      assert.equal(wsEndpoint, `ws://127.0.0.1:${port}/devtools/browser/fixture`);
+
+      session.transitionSession("browser-up", { wsEndpoint: wsEndpoint! });
+      const status = await new UPSClient().status();
+      assert.equal(status.browser.reachable, true);
+      assert.equal(status.pageUrl, "https://wwwapps.ups.com/pickup/schedule");
+    } finally {
+      await new Promise<void>((resolve) => devtools.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { extractCode, obtainVerificationCode, totp, verificationCodeProblem } from "../verification-code.js";
+
+// RFC 6238 test secret "12345678901234567890" in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("verification codes", () => {
+  let workDir: string;
+
+  before(() => {
+    workDir = mkdtempSync(join(tmpdir(), "ups-test-"));
+  });
+
+  after(() => {
+    rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it("generates RFC 6238 TOTP codes", () => {
+    assert.equal(totp(RFC_SECRET, 59 * 1000, 8), "94287082");
+    assert.equal(totp(RFC_SECRET, 1111111109 * 1000, 8), "07081804");
+    assert.equal(totp(RFC_SECRET, 59 * 1000), "287082");
+  });
+
+  it("pulls the code out of message text", () => {
+    assert.equal(extractCode("Your UPS verification code is 482913. It expires in 10 minutes."), "482913");
+    assert.equal(extractCode("No code here"), null);
+  });
+
+  it("checks a code given on the command line", () => {
+    assert.equal(verificationCodeProblem("123456"), null);
+    assert.equal(verificationCodeProblem(" 4829 "), null);
+    assert.match(verificationCodeProblem("12a")!, /4 to 8 digits/);
+    assert.match(verificationCodeProblem("123456789")!, /4 to 8 digits/);
+  });
+
+  it("takes the first source that gives a code", async () => {
+    const result = await obtainVerificationCode({ command: "echo 'Code: 246810'" });
+    assert.deepEqual(result, { code: "246810", source: "command", tried: [] });
+  });
+
+  it("ignores a code file written before the challenge and reports what was tried", async () => {
+    const file = join(workDir, "code.txt");
+    writeFileSync(file, "135790");
+    const result = await obtainVerificationCode({ file, command: "exit 3", timeoutSeconds: 0 }, Date.now() + 60 * 1000);
+    assert.equal(result.code, null);
+    assert.equal(result.tried.length, 2);
+    assert.match(result.tried[0], /^command: /);
+    assert.equal(result.tried[1], "file: no code found");
+  });
+});
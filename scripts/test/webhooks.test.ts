@@ -0,0 +1,193 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { readFileSync } from "fs";
+import { CollectionCalendar } from "../collection-calendar.js";
+import { UPSError } from "../errors.js";
+import { PickupApiDriver } from "../pickup-api-driver.js";
+import { WebhookPayload, deliverWebhook, deliverWebhooks, slackMessage, verifySignature } from "../webhooks.js";
+import { FixtureConfig, withFixtureConfig } from "./fixtures/config.js";
+
+const noWait = async () => {};
+
+const payload: WebhookPayload = {
+  event: "book",
+  outcome: "success",
+  code: null,
+  message: "Collection booked",
+  timestamp: "2026-10-19T10:00:00.000Z",
+  driver: "browser",
+  runId: "20261019-100000-book",
+  formState: {
+    profile: "warehouse",
+    company: "Acme Ltd",
+    address: "1 High Street",
+    city: "London",
+    postalCode: "N1 1AA",
+    telephone: "02000000000",
+    collectFrom: "Front Door",
+    email: "ops@example.com",
+    paymentAccount: "ABC123",
+    date: "2026-10-20",
+    packages: 2,
+    weight: 20,
+    earliestTime: "13:00",
+    latestTime: "18:00",
+    specialInstructions: "Door code 123-456-789",
+  },
+  confirmation: { confirmationNumber: "WPX123456" },
+  screenshots: { confirmationScreenshot: "/tmp/confirmation.png" },
+};
+
+interface Received {
+  headers: IncomingMessage["headers"];
+  body: string;
+}
+
+// Local receiver that answers each request with the next queued status (200 once empty)
+describe("webhook delivery", () => {
+  let server: Server;
+  let url: string;
+  let received: Received[] = [];
+  let statuses: number[] = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => { body += chunk; });
+      request.on("end", () => {
+        received.push({ headers: request.headers, body });
+        response.statusCode = statuses.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const reset = (queued: number[] = []) => {
+    received = [];
+    statuses = queued;
+  };
+
+  it("posts the JSON payload signed with the secret", async () => {
+    reset();
+    const delivery = await deliverWebhook("ops", { url, secret: "s3cret" }, payload, noWait);
+
+    assert.equal(delivery.delivered, true);
+    assert.equal(delivery.status, 200);
+    assert.equal(received.length, 1);
+    const [{ headers, body }] = received;
+    assert.deepEqual(JSON.parse(body), payload);
+    assert.equal(headers["x-ups-event"], "book");
+    assert.ok(verifySignature("s3cret", headers["x-ups-timestamp"] as string, body, headers["x-ups-signature"] as string));
+    assert.ok(!verifySignature("other", headers["x-ups-timestamp"] as string, body, headers["x-ups-signature"] as string));
+  });
+
+  it("retries a server error with the same delivery id", async () => {
+    reset([500]);
+    const waits: number[] = [];
+    const delivery = await deliverWebhook("ops", { url, backoffMs: 250 }, payload, async (ms) => { waits.push(ms); });
+
+    assert.equal(delivery.delivered, true);
+    assert.equal(delivery.attempts, 2);
+    assert.deepEqual(waits, [250]);
+    assert.equal(received.length, 2);
+    assert.equal(received[0].headers["x-ups-delivery"], received[1].headers["x-ups-delivery"]);
+    assert.equal(received[0].headers["x-ups-signature"], undefined);
+  });
+
+  it("does not retry a client error", async () => {
+    reset([400]);
+    const delivery = await deliverWebhook("ops", { url }, payload, noWait);
+
+    assert.equal(delivery.delivered, false);
+    assert.equal(delivery.status, 400);
+    assert.equal(delivery.attempts, 1);
+    assert.match(delivery.error ?? "", /HTTP 400/);
+  });
+
+  it("reports an unreachable receiver without throwing", async () => {
+    const delivery = await deliverWebhook("ops", { url: "http://127.0.0.1:1/hook", attempts: 2 }, payload, noWait);
+
+    assert.equal(delivery.delivered, false);
+    assert.equal(delivery.status, null);
+    assert.equal(delivery.attempts, 2);
+    assert.ok(delivery.error);
+  });
+
+  it("only sends to webhooks that want the event and outcome", async () => {
+    reset();
+    const deliveries = await deliverWebhooks({
+      all: { url },
+      cancels: { url, events: ["cancel"] },
+      failures: { url, outcomes: ["failure"] },
+    }, payload);
+
+    assert.deepEqual(deliveries.map((delivery) => delivery.name), ["all"]);
+    assert.equal(received.length, 1);
+  });
+});
+
+describe("slack template", () => {
+  it("summarises the collection without the door code", () => {
+    const message = slackMessage(payload);
+    assert.match(message.text, /book succeeded for 2026-10-20 13:00-18:00 at Acme Ltd, N1 1AA \(confirmation WPX123456\)/);
+    assert.equal(message.blocks.length, 2);
+    assert.doesNotMatch(JSON.stringify(message), /123-456-789/);
+  });
+
+  it("includes the error code for a failure", () => {
+    const message = slackMessage({ ...payload, outcome: "failure", code: "LOGIN_FAILED", message: "Login rejected", confirmation: null });
+    assert.match(message.text, /^:x: UPS book failed .*: LOGIN_FAILED Login rejected$/);
+  });
+});
+
+describe("booking outcome notifications", () => {
+  let server: Server;
+  let config: FixtureConfig;
+  const received: WebhookPayload[] = [];
+
+  before(async () => {
+    server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => { body += chunk; });
+      request.on("end", () => {
+        received.push(JSON.parse(body));
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    config = await withFixtureConfig({
+      driver: "api",
+      api: { baseUrl: "http://127.0.0.1:9", clientId: "id", clientSecret: "secret" },
+      webhooks: { ops: { url, attempts: 1 } },
+    });
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    config.cleanup();
+  });
+
+  it("records and reports a booking whose driver throws", async (t) => {
+    t.mock.method(PickupApiDriver.prototype, "book", async () => {
+      throw new UPSError("CREDENTIALS_REJECTED", "UPS rejected the username or password");
+    });
+    const [date] = new CollectionCalendar().nextDates(1).dates;
+
+    const result = await new config.UPSClient().book({ date, doorCode: "123456" });
+
+    assert.equal(result.error, true);
+    assert.equal(result.code, "CREDENTIALS_REJECTED");
+    const entry = JSON.parse(readFileSync(config.ledgerPath, "utf-8").trim().split("\n").at(-1)!);
+    assert.equal(entry.operation, "book");
+    assert.equal(entry.status, "failed");
+    assert.deepEqual(received.map((hook) => [hook.event, hook.outcome, hook.code]), [["book", "failure", "CREDENTIALS_REJECTED"]]);
+    assert.equal(result.webhooks[0].delivered, true);
+  });
+});
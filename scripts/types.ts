@@ -0,0 +1,264 @@
+/**
+ * Shared types for the UPS collection client and its booking drivers.
+ */
+
+import type { CalendarConfig } from "./collection-calendar.js";
+import type { SelectorHealthSummary, SelectorOverrides } from "./selectors.js";
+import type { ResolvedLaunchProfile } from "./launch-profile.js";
+import type { RetryConfig, RetryRecord } from "./retry.js";
+import type { LockOptions } from "./session-lock.js";
+import type { ScheduleRule } from "./schedules.js";
+import type { WebhookConfig } from "./webhooks.js";
+import type { DoorCodeConfig } from "./door-code.js";
+import type { Manifest } from "./manifest.js";
+
+/** Collection site details filled into the UPS form. */
+export interface CollectionProfile {
+  company: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  telephone: string;
+  collectFrom: string;
+  email: string;
+  paymentAccount: string;
+  /** Door code sources for this site, instead of the global ones */
+  doorCode?: DoorCodeConfig;
+}
+
+export type DriverName = "browser" | "api";
+
+/** Commands that can be previewed with --dry-run. */
+export type PlanOperation = "fill-form" | "book";
+
+/** Settings for the UPS developer Pickup API driver. */
+export interface PickupApiConfig {
+  baseUrl?: string;
+  clientId: string;
+  clientSecret: string;
+  version?: string;
+  countryCode?: string;
+  /** How long to wait for each API call (default 30) */
+  timeoutSeconds?: number;
+}
+
+/** Overrides for the UPS portal pages, e.g. to point at a local fixture server. */
+export interface UrlConfig {
+  login?: string;
+  form?: string;
+  history?: string;
+}
+
+/** Where to get the code when UPS challenges a login (see verification-code.ts). */
+export interface VerificationConfig {
+  /** Base32 secret from the authenticator app setup */
+  totpSecret?: string;
+  /** Shell command that prints the code, e.g. a mailbox scraper */
+  command?: string;
+  /** File the code is written to after the challenge */
+  file?: string;
+  /** Read the code from stdin even when it is not a terminal */
+  stdin?: boolean;
+  /** How long to wait for the command, file or prompt (default 120) */
+  timeoutSeconds?: number;
+}
+
+/** Browser launch settings; a named set in "launchProfiles" in config.json. */
+export interface LaunchProfile {
+  headless?: boolean;
+  viewport?: { width: number; height: number };
+  /** e.g. "en-GB" */
+  locale?: string;
+  /** IANA zone, e.g. "Europe/London" */
+  timezone?: string;
+  /** Chromium binary to use instead of Playwright's */
+  executablePath?: string;
+  /** Extra Chromium arguments, added to the built-in ones */
+  args?: string[];
+}
+
+/** Launch settings given on the command line; they win over the profile. */
+export interface LaunchOverrides extends Omit<LaunchProfile, "viewport"> {
+  /** Name of a profile in launchProfiles */
+  profile?: string;
+  /** WIDTHxHEIGHT, e.g. "1920x1080" */
+  viewport?: string;
+}
+
+export interface Config {
+  ups: {
+    username: string;
+    password: string;
+    verification?: VerificationConfig;
+  };
+  urls?: UrlConfig;
+  driver?: DriverName;
+  api?: PickupApiConfig;
+  defaultProfile?: string;
+  profiles: Record<string, CollectionProfile>;
+  ledgerPath?: string;
+  calendar?: CalendarConfig;
+  /** Where run artifacts are kept (overridden by UPS_ARTIFACT_DIR) */
+  artifactDir?: string;
+  /** Hours a saved login is reused before logging in again (default 12, 0 disables reuse) */
+  authStateMaxAgeHours?: number;
+  /** Minutes before an unfinished session counts as stale in status (default 30) */
+  sessionTtlMinutes?: number;
+  /** Named browser launch settings (see launch-profile.ts) */
+  launchProfiles?: Record<string, LaunchProfile>;
+  /** Launch profile used when none is passed with --launch-profile */
+  defaultLaunchProfile?: string;
+  /** Replacement selector lists for the browser driver (see selectors.ts) */
+  selectors?: SelectorOverrides;
+  /** Retry policy for the browser driver's steps (see retry.ts) */
+  retry?: RetryConfig;
+  /** Session lock wait and expiry (see session-lock.ts) */
+  lock?: LockOptions;
+  /** Recurring collections booked by run-schedule (see schedules.ts) */
+  schedules?: Record<string, ScheduleRule>;
+  /** Where door codes come from when --door-code is omitted (see door-code.ts) */
+  doorCode?: DoorCodeConfig;
+  /** Where to post booking outcomes (see webhooks.ts) */
+  webhooks?: Record<string, WebhookConfig>;
+}
+
+export interface FillFormOptions {
+  profile?: string;
+  date?: string;
+  packages?: number;
+  weight?: number;
+  earliestTime?: string;
+  latestTime?: string;
+  doorCode?: string;
+  specialInstructions?: string;
+  /** Parcel manifest file (JSON or CSV); sets packages and weight */
+  manifest?: string;
+  allowDuplicate?: boolean;
+  dryRun?: boolean;
+  trace?: boolean;
+  launch?: LaunchOverrides;
+  /** Seconds to wait for a busy session */
+  wait?: number;
+  /** Code UPS sent for the login's "verify it's you" step */
+  verificationCode?: string;
+  /** Write an .ics event for the booked collection to this file (book only) */
+  ics?: string;
+}
+
+export interface SubmitOptions {
+  trace?: boolean;
+  launch?: LaunchOverrides;
+  /** Seconds to wait for a busy session */
+  wait?: number;
+  /** Code UPS sent for the login's "verify it's you" step */
+  verificationCode?: string;
+  /** Write an .ics event for the booked collection to this file */
+  ics?: string;
+}
+
+export interface RunOptions {
+  operation: string;
+  /** Record a Playwright trace and HAR into the run folder */
+  trace?: boolean;
+  /** Continue an existing run folder (submit after fill-form) */
+  runId?: string;
+  /** Browser launch settings for this run */
+  launch?: LaunchOverrides;
+  /** Code to answer a login verification challenge with, before trying ups.verification */
+  verificationCode?: string;
+}
+
+/** Where a run's artifacts were written; trace and har are set only when traced. */
+export interface RunArtifacts {
+  runId: string;
+  dir: string;
+  trace: string | null;
+  har: string | null;
+}
+
+export interface RunScheduleOptions {
+  /** Only this schedule (default: every enabled one) */
+  schedule?: string;
+  /** Report what is due without booking */
+  dryRun?: boolean;
+  launch?: LaunchOverrides;
+  /** Seconds to wait for a busy session */
+  wait?: number;
+}
+
+export interface CancelOptions {
+  confirmation: string;
+  confirm?: boolean;
+  launch?: LaunchOverrides;
+  /** Seconds to wait for a busy session */
+  wait?: number;
+  /** Write an .ics cancellation (METHOD:CANCEL) to this file */
+  ics?: string;
+}
+
+export interface ScreenshotOptions {
+  filename?: string;
+  fullPage?: boolean;
+}
+
+export interface FormState {
+  profile: string;
+  date: string;
+  packages: number;
+  weight: number;
+  earliestTime: string;
+  latestTime: string;
+  specialInstructions?: string;
+  company: string;
+  address: string;
+  city: string;
+  postalCode: string;
+  telephone: string;
+  collectFrom: string;
+  email: string;
+  paymentAccount: string;
+  /** The parcels, when booked from a manifest */
+  manifest?: Manifest;
+}
+
+/** Read-back result for one form field after fillForm(). */
+export interface FieldCheck {
+  field: string;
+  required: boolean;
+  expected: string;
+  actual: string | null;
+  status: "matched" | "missing" | "mismatched";
+}
+
+/**
+ * A backend that performs bookings.
+ *
+ * UPSClient resolves options and defaults into a FormState before calling
+ * a driver, and records the results in the ledger. Drivers return the same
+ * result shapes so CLI output does not depend on the backend in use.
+ */
+export interface BookingDriver {
+  readonly name: DriverName;
+  /** Prepares the collection for review without booking it. */
+  fillForm(formState: FormState): Promise<any>;
+  /** Books the collection prepared by fillForm(). */
+  submit(formState?: FormState): Promise<any>;
+  /** Prepares and books a collection in one operation. */
+  book(formState: FormState): Promise<any>;
+  /** Describes the steps fillForm() or book() would run, without running them. */
+  plan(formState: FormState, operation: PlanOperation, launch?: LaunchOverrides): string[];
+  /** Previews (confirm = false) or cancels a scheduled collection. */
+  cancel(confirmationNumber: string, confirm: boolean, formState?: FormState): Promise<any>;
+  takeScreenshot(options?: ScreenshotOptions): Promise<any>;
+  reset(): Promise<any>;
+  /** Writes the selector-health report for this run; null when no selectors were used. */
+  saveSelectorHealth(): SelectorHealthSummary | null;
+  /** Prepares the next operation's run (artifact folder, tracing). */
+  startRun(options: RunOptions): void;
+  /** Launch settings of the browser this run used; null when no browser was launched. */
+  launchProfile(): ResolvedLaunchProfile | null;
+  /** Steps this run retried, in order. */
+  retries(): RetryRecord[];
+  /** Ends the run, flushing any trace and HAR; null when the driver keeps no artifacts. */
+  finishRun(): Promise<RunArtifacts | null>;
+}
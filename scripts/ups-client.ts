@@ -1,411 +1,587 @@
 /**
  * UPS Collection Manager Client
  *
- * Browser automation client for booking UPS parcel collections
- * via the UPS web interface. Uses Playwright with stealth mode.
+ * Books UPS parcel collections through a pluggable booking driver:
+ * - browser: Playwright automation of the UPS web interface (default)
+ * - api: UPS developer Pickup API (OAuth client credentials)
  *
- * Key features:
- * - Login: Automated two-step authentication
- * - Form fill: Pre-fills collection details with smart defaults
- * - Submit: Completes booking and extracts confirmation
- * - Screenshots: Captures state at each step for verification
+ * The client owns everything that does not depend on the backend:
+ * - Profiles: Collection addresses from named profiles in config.json
+ * - Smart defaults: Date, time, package and door-code defaulting
+ * - Ledger: Records every submit/book/cancel attempt
  *
- * Uses headed browser with stealth plugin to avoid bot detection.
- * Sessions are persisted for reconnection between operations.
+ * Select the driver with "driver" in config.json (see config.template.json).
  *
- * Default address: YOUR_COMPANY YOUR_CITY warehouse (YOUR_POSTCODE)
+ * Failures come back as `{ error: true, code, ... }` results (see errors.ts);
+ * config and profile problems are thrown as UPSError.
+ *
+ * Commands that use the shared browser session hold the session lock
+ * (see session-lock.ts) while they run. Their outcomes are posted to the
+ * configured webhooks (see webhooks.ts).
  */
 
-import { chromium } from "playwright-extra";
-import StealthPlugin from "puppeteer-extra-plugin-stealth";
-import { Browser, Page, BrowserContext } from "playwright";
-import { existsSync, readFileSync, writeFileSync, unlinkSync, mkdirSync } from "fs";
+import { existsSync } from "fs";
 import { dirname, join } from "path";
 import { fileURLToPath } from "url";
-
-// Add stealth plugin to evade bot detection
-chromium.use(StealthPlugin());
+import {
+  appendLedgerEntry,
+  findActiveBookings,
+  findCancelledBookings,
+  readLedger,
+  LedgerFilter,
+  LedgerStatus,
+} from "./ledger.js";
+import {
+  DEFAULT_SESSION_TTL_MINUTES,
+  nextStates,
+  probeBrowser,
+  readSession,
+  staleAt,
+  transitionSession,
+  updateSession,
+} from "./session.js";
+import { CollectionCalendar, londonNow, weekdayName } from "./collection-calendar.js";
+import { BrowserDriver } from "./browser-driver.js";
+import { PickupApiDriver } from "./pickup-api-driver.js";
+import { ErrorCode, UPSError, errorCodeOf, errorResult, toErrorResult } from "./errors.js";
+import { CleanupOptions, cleanupArtifacts, resolveArtifactDir, writeRunRecord } from "./artifacts.js";
+import { AUTH_STATE_PATH, clearAuthState } from "./auth-state.js";
+import { SessionLock, acquireLock, readLock, staleReason } from "./session-lock.js";
+import { ScheduleOutcome, nextSlot, scheduleOptions, scheduleOutcome } from "./schedules.js";
+import { CalendarMethod, CollectionEvent, ExportIcsOptions, buildCalendar, writeCalendar } from "./ics.js";
+import { WebhookEvent, deliverWebhooks } from "./webhooks.js";
+import { checkParcels, readManifest } from "./manifest.js";
+import { DoorCodeConfig, DoorCodeResult, doorCodeProblem, doorCodeSources, normalizeDoorCode, obtainDoorCode } from "./door-code.js";
+import { verificationCodeProblem } from "./verification-code.js";
+import { CONFIG_PATH, checkConfig, loadConfig } from "./config.js";
+import type {
+  BookingDriver,
+  PlanOperation,
+  RunOptions,
+  SubmitOptions,
+  CancelOptions,
+  CollectionProfile,
+  Config,
+  FillFormOptions,
+  FormState,
+  RunScheduleOptions,
+  ScreenshotOptions,
+} from "./types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
 // Paths
-const SESSION_PATH = "/tmp/ups-session.json";
-const SCREENSHOT_DIR = "/home/USER/biz/.playwright-mcp";
-const CONFIG_PATH = join(__dirname, "..", "config.json");
-// Persistent profile directory - preserves cookies, localStorage, history
-// Using /tmp to avoid WSL2 symlink issues with SingletonLock
-const USER_DATA_DIR = "/tmp/ups-browser-profile";
-
-// UPS URLs
-const UPS_LOGIN_URL = "https://www.ups.com/lasso/login?loc=en_GB&returnto=https://wwwapps.ups.com/pickup/schedule?loc=en_GB";
-const UPS_FORM_URL = "https://wwwapps.ups.com/pickup/schedule?loc=en_GB";
-
-// Default collection values
-const DEFAULTS = {
-  company: "YOUR_COMPANY",
-  address: "YOUR_WAREHOUSE_ADDRESS_LINE_1, YOUR_WAREHOUSE_ADDRESS_LINE_2",
-  city: "YOUR_CITY",
-  postalCode: "YOUR_POSTCODE",
-  telephone: "YOUR_PHONE_NUMBER",
-  collectFrom: "Front Door",
-  email: "YOUR_LOGISTICS_EMAIL",
-  paymentAccount: "YOUR_UPS_ACCOUNT",
-};
-
-interface SessionInfo {
-  wsEndpoint: string;
-  createdAt: string;
-  formFilled: boolean;
-  loggedIn: boolean;
-}
-
-interface Config {
-  ups: {
-    username: string;
-    password: string;
-  };
-}
-
-interface FillFormOptions {
-  date?: string;
-  packages?: number;
-  weight?: number;
-  earliestTime?: string;
-  latestTime?: string;
-  doorCode?: string;
-  specialInstructions?: string;
+const LEDGER_PATH = join(__dirname, "..", "data", "bookings.jsonl");
+
+/** Screenshot paths on a result, keyed by field name. */
+function screenshotsOf(result: any): Record<string, string> {
+  const screenshots: Record<string, string> = {};
+  for (const key of ["screenshot", "fillScreenshot", "reviewScreenshot", "confirmationScreenshot", "errorScreenshot"]) {
+    if (typeof result[key] === "string") {
+      screenshots[key] = result[key];
+    }
+  }
+  return screenshots;
 }
 
-interface ScreenshotOptions {
-  filename?: string;
-  fullPage?: boolean;
+// Page text is kept in the screenshot; records only need the parsed fields
+function parsedConfirmation(result: any): Record<string, any> | undefined {
+  if (!result.confirmation) {
+    return undefined;
+  }
+  const { pageText: _pageText, ...parsed } = result.confirmation;
+  return parsed;
 }
 
-interface FormState {
-  date?: string;
-  packages?: number;
-  weight?: number;
-  earliestTime?: string;
-  latestTime?: string;
-  specialInstructions?: string;
-  company?: string;
-  address?: string;
-  city?: string;
-  postalCode?: string;
+// Where a door code came from, for results; the code itself is in the special instructions
+function doorCodeFrom(doorCode: DoorCodeResult): Record<string, any> {
+  return { source: doorCode.source, postedAt: doorCode.postedAt, tried: doorCode.tried };
 }
 
 export class UPSClient {
-  private config: Config;
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
-
-  constructor() {
-    this.config = this.loadConfig();
-    // Ensure screenshot directory exists
-    if (!existsSync(SCREENSHOT_DIR)) {
-      mkdirSync(SCREENSHOT_DIR, { recursive: true });
-    }
-  }
+  private loaded: { config: Config; calendar: CollectionCalendar; driver: BookingDriver } | null = null;
 
   // ============================================
   // INTERNAL
   // ============================================
 
-  private loadConfig(): Config {
-    if (!existsSync(CONFIG_PATH)) {
-      throw new Error(`Config file not found at ${CONFIG_PATH}`);
+  // Config is loaded on first use, so a missing config.json surfaces as a
+  // CONFIG_MISSING error from the command rather than from the constructor
+  private load() {
+    if (!this.loaded) {
+      const config = loadConfig();
+      let calendar: CollectionCalendar;
+      try {
+        calendar = new CollectionCalendar(config.calendar);
+      } catch (error: any) {
+        throw new UPSError("CONFIG_INVALID", error.message);
+      }
+      const driver = config.driver === "api" ? new PickupApiDriver(config) : new BrowserDriver(config);
+      this.loaded = { config, calendar, driver };
     }
-    return JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
+    return this.loaded;
   }
 
-  private async ensureBrowser(): Promise<Page> {
-    // Ensure persistent profile directory exists
-    if (!existsSync(USER_DATA_DIR)) {
-      mkdirSync(USER_DATA_DIR, { recursive: true });
+  private get config(): Config {
+    return this.load().config;
+  }
+
+  private get calendar(): CollectionCalendar {
+    return this.load().calendar;
+  }
+
+  private get driver(): BookingDriver {
+    return this.load().driver;
+  }
+
+  /** Looks up a collection profile by name, falling back to the configured default. */
+  private resolveProfile(name?: string): { name: string; profile: CollectionProfile } {
+    const profiles = this.config.profiles || {};
+    const names = Object.keys(profiles);
+    if (names.length === 0) {
+      throw new UPSError("CONFIG_INVALID", `No collection profiles configured. Add a "profiles" section to ${CONFIG_PATH}`);
     }
 
-    // Try to reconnect to existing session
-    if (existsSync(SESSION_PATH)) {
-      try {
-        const session: SessionInfo = JSON.parse(readFileSync(SESSION_PATH, "utf-8"));
-        this.browser = await chromium.connectOverCDP(session.wsEndpoint);
-        const contexts = this.browser.contexts();
-        if (contexts.length > 0) {
-          this.context = contexts[0];
-          const pages = this.context.pages();
-          if (pages.length > 0) {
-            this.page = pages[0];
-            return this.page;
-          }
-        }
-      } catch {
-        // Session invalid, clean up
-        try {
-          unlinkSync(SESSION_PATH);
-        } catch {
-          // Ignore deletion errors
-        }
-      }
+    const profileName = name || this.config.defaultProfile || names[0];
+    const profile = profiles[profileName];
+    if (!profile) {
+      throw new UPSError("INVALID_INPUT", `Unknown profile "${profileName}". Available profiles: ${names.join(", ")}`);
+    }
+    return { name: profileName, profile };
+  }
+
+  /** Door code sources for a profile: its own, else the global ones. */
+  private doorCodeConfig(profile?: string): DoorCodeConfig | undefined {
+    return this.resolveProfile(profile).profile.doorCode ?? this.config.doorCode;
+  }
+
+  /**
+   * Fills in the door code when the caller gave none (and no special
+   * instructions) from the configured sources. A given code only has its
+   * dashes and spaces stripped.
+   *
+   * @returns The options to use, and where the code came from (null when
+   *   no lookup was needed or no source is configured)
+   */
+  private async resolveDoorCode(options: FillFormOptions): Promise<{ options: FillFormOptions; doorCode: DoorCodeResult | null }> {
+    if (options.doorCode) {
+      const code = normalizeDoorCode(options.doorCode);
+      return { options: { ...options, doorCode: code }, doorCode: { code, source: "option", postedAt: null, tried: [] } };
     }
+    const config = this.doorCodeConfig(options.profile);
+    if (options.specialInstructions || !config) {
+      return { options, doorCode: null };
+    }
+    const doorCode = await obtainDoorCode(config);
+    return { options: { ...options, doorCode: doorCode.code ?? undefined }, doorCode };
+  }
 
-    // Clean up any stale singleton files that may interfere
-    const singletonFiles = ['SingletonLock', 'SingletonSocket', 'SingletonCookie'];
-    for (const file of singletonFiles) {
-      const filePath = `${USER_DATA_DIR}/${file}`;
-      if (existsSync(filePath)) {
-        try {
-          unlinkSync(filePath);
-        } catch {
-          // Ignore errors
-        }
+  /**
+   * The door code sources resolveDoorCode would query, so a dry run can
+   * list them without running a command or calling an endpoint.
+   */
+  private pendingDoorCodeSources(options: FillFormOptions): ReturnType<typeof doorCodeSources> {
+    const config = this.doorCodeConfig(options.profile);
+    return options.doorCode || options.specialInstructions || !config ? [] : doorCodeSources(config);
+  }
+
+  /** Applies profile and smart defaults to the fill-form options. */
+  private resolveFormState(options: FillFormOptions): FormState {
+    const { name: profileName, profile } = this.resolveProfile(options.profile);
+
+    // Build special instructions
+    let specialInstructions = options.specialInstructions;
+    if (!specialInstructions && options.doorCode) {
+      specialInstructions = `Door code * ${options.doorCode} #`;
+    }
+
+    const date = options.date || this.calendar.nextDate();
+    const manifest = options.manifest ? readManifest(options.manifest) : undefined;
+
+    return {
+      profile: profileName,
+      date,
+      packages: manifest?.packages || options.packages || 1,
+      // The form takes whole kilograms
+      weight: (manifest && Math.ceil(manifest.totalWeight)) || options.weight || 10,
+      earliestTime: options.earliestTime || this.calendar.earliestTime(date),
+      latestTime: options.latestTime || "18:00",
+      specialInstructions,
+      company: profile.company,
+      address: profile.address,
+      city: profile.city,
+      postalCode: profile.postalCode,
+      telephone: profile.telephone,
+      collectFrom: profile.collectFrom,
+      email: profile.email,
+      paymentAccount: profile.paymentAccount,
+      ...(manifest ? { manifest } : {}),
+    };
+  }
+
+  /**
+   * Checks resolved values before anything is sent to UPS.
+   *
+   * Problems block the booking; warnings are passed back to the caller.
+   * The code is DATE_UNAVAILABLE when the date itself is the problem.
+   * doorCodePending is set by a dry run that left the door code unlooked-up.
+   */
+  private validateFormState(
+    formState: FormState,
+    options: FillFormOptions,
+    doorCodePending = false
+  ): { code: ErrorCode | null; problems: string[]; warnings: string[] } {
+    const problems: string[] = [];
+    const warnings: string[] = [];
+    let code: ErrorCode | null = null;
+    const timePattern = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(formState.date) || isNaN(Date.parse(formState.date))) {
+      problems.push(`Invalid date "${formState.date}", expected YYYY-MM-DD`);
+      code = "INVALID_INPUT";
+    } else {
+      const today = londonNow().date;
+      const skipReason = this.calendar.skipReason(formState.date);
+      if (formState.date < today) {
+        problems.push(`Collection date ${formState.date} is in the past`);
+        code = "DATE_UNAVAILABLE";
+      } else if (skipReason) {
+        problems.push(`No collection on ${formState.date}: ${skipReason}`);
+        code = "DATE_UNAVAILABLE";
+      } else if (formState.date === today && this.calendar.isPastCutoff()) {
+        warnings.push(`Booking for today after the ${this.calendar.cutoff} cutoff; UPS may no longer offer today`);
       }
     }
 
-    // Launch browser - using regular launch without persistent context
-    // This avoids WSL2 singleton issues but means we login fresh each time
-    this.browser = await chromium.launch({
-      headless: false,  // Headed mode to avoid bot detection
-      args: [
-        "--disable-blink-features=AutomationControlled",  // Hide automation flag
-        "--no-first-run",
-        "--no-default-browser-check",
-        "--no-sandbox",
-      ],
-    });
+    for (const [name, value] of [["earliestTime", formState.earliestTime], ["latestTime", formState.latestTime]]) {
+      if (!timePattern.test(value)) {
+        problems.push(`Invalid ${name} "${value}", expected HH:MM`);
+      }
+    }
+    if (timePattern.test(formState.earliestTime) && timePattern.test(formState.latestTime)) {
+      const toMinutes = (time: string) => Number(time.split(":")[0]) * 60 + Number(time.split(":")[1]);
+      if (toMinutes(formState.earliestTime) >= toMinutes(formState.latestTime)) {
+        problems.push(`Earliest time ${formState.earliestTime} must be before latest time ${formState.latestTime}`);
+      }
+    }
 
-    // Create context with viewport settings
-    this.context = await this.browser.newContext({
-      viewport: { width: 1280, height: 800 },
-    });
+    const doorCodeIssue = options.doorCode && doorCodeProblem(options.doorCode, this.doorCodeConfig(formState.profile)?.digits);
+    if (doorCodeIssue) {
+      problems.push(doorCodeIssue);
+    }
+    if (!formState.specialInstructions && !doorCodePending) {
+      warnings.push("No door code or special instructions; the driver may not be able to get in");
+    }
+    const verificationIssue = options.verificationCode !== undefined && verificationCodeProblem(options.verificationCode);
+    if (verificationIssue) {
+      problems.push(verificationIssue);
+    }
 
-    // Create page
-    this.page = await this.context.newPage();
-
-    // Save session for reconnection
-    const wsEndpoint = (this.browser as any)?.wsEndpoint?.() as string | undefined;
-    if (wsEndpoint) {
-      writeFileSync(
-        SESSION_PATH,
-        JSON.stringify({
-          wsEndpoint,
-          createdAt: new Date().toISOString(),
-          formFilled: false,
-          loggedIn: false,
-        } as SessionInfo)
+    if (formState.manifest) {
+      if (options.packages !== undefined && options.packages !== formState.packages) {
+        problems.push(`--packages ${options.packages} does not match the manifest's ${formState.packages} parcel(s)`);
+      }
+      if (options.weight !== undefined && options.weight !== formState.weight) {
+        problems.push(`--weight ${options.weight} does not match the manifest's ${formState.manifest.totalWeight} kg`);
+      }
+      const parcels = checkParcels(formState.manifest.parcels);
+      problems.push(...parcels.problems);
+      warnings.push(...parcels.warnings);
+      warnings.push(
+        `UPS is given only the package count and total weight (${formState.packages} package(s), ${formState.weight} kg); the manifest's parcels are checked against the limits, not booked one by one`
       );
+    } else if (options.packages === undefined && options.weight === undefined) {
+      warnings.push(`No packages, weight or manifest given; using ${formState.packages} package(s), ${formState.weight} kg`);
     }
 
-    return this.page;
+    if (problems.length > 0 && !code) {
+      code = "INVALID_INPUT";
+    }
+    return { code, problems, warnings };
   }
 
-  private updateSession(updates: Partial<SessionInfo>): void {
-    if (existsSync(SESSION_PATH)) {
-      const session = JSON.parse(readFileSync(SESSION_PATH, "utf-8"));
-      Object.assign(session, updates);
-      writeFileSync(SESSION_PATH, JSON.stringify(session));
+  /**
+   * Refuses a booking whose resolved values fail validation.
+   *
+   * @returns An "invalid" result, or null if the booking may proceed
+   */
+  private rejectInvalid(formState: FormState, options: FillFormOptions): any | null {
+    const { code, problems } = this.validateFormState(formState, options);
+    if (!code) {
+      return null;
     }
+    return errorResult(code, `Invalid collection details: ${problems.join("; ")}`, { problems, formState });
   }
 
-  private async dismissCookieBanners(page: Page): Promise<void> {
-    // Wait a bit for the cookie banner to appear
-    await page.waitForTimeout(2000);
+  /** Refusal for a booking whose door code lookup found nothing usable. */
+  private noDoorCode(doorCode: DoorCodeResult): any {
+    return errorResult("DOOR_CODE_UNAVAILABLE", `No usable door code: ${doorCode.tried.join("; ")}`, { tried: doorCode.tried });
+  }
 
-    // First try to remove overlays via JavaScript - most reliable
-    try {
-      await page.evaluate(() => {
-        // Remove OneTrust overlays
-        document.querySelectorAll('#onetrust-consent-sdk, .onetrust-pc-dark-filter, #onetrust-banner-sdk').forEach(el => el.remove());
-        // Remove any other common cookie overlays
-        document.querySelectorAll('[class*="cookie-overlay"], [class*="consent-overlay"], [id*="cookie-banner"]').forEach(el => el.remove());
-        // Reset body scroll if locked
-        document.body.style.overflow = '';
-      });
-    } catch {
-      // Ignore errors
+  /**
+   * Refuses a booking when the ledger already holds an active collection
+   * for the same date and address.
+   *
+   * @returns An "already booked" result, or null if the booking may proceed
+   */
+  private checkDuplicate(formState: FormState, allowDuplicate?: boolean): any | null {
+    if (allowDuplicate) {
+      return null;
     }
 
-    // Then try clicking accept buttons
-    const cookieButtonSelectors = [
-      '#onetrust-accept-btn-handler',
-      '#accept-recommended-btn-handler',
-      'button[id*="accept"]',
-      'button:has-text("Accept All")',
-      'button:has-text("Accept Cookies")',
-      'button:has-text("Accept")',
-      'button:has-text("I Agree")',
-      'button:has-text("Got it")',
-    ];
-
-    for (const selector of cookieButtonSelectors) {
-      try {
-        const button = await page.$(selector);
-        if (button) {
-          await button.click({ force: true, timeout: 5000 });
-          await page.waitForTimeout(500);
-          break;
-        }
-      } catch {
-        continue;
-      }
+    const existing = findActiveBookings(this.config.ledgerPath || LEDGER_PATH, formState);
+    if (existing.length === 0) {
+      return null;
     }
 
-    // Final cleanup - remove any remaining overlays
+    const [latest] = existing;
+    const message = `A collection is already booked for ${formState.date} at ${formState.address}` +
+      (latest.confirmationNumber ? ` (confirmation ${latest.confirmationNumber})` : " (unconfirmed)") +
+      ". Pass --allow-duplicate to book another.";
+    return errorResult("ALREADY_BOOKED", message, {
+      alreadyBooked: true,
+      existing: existing.map((entry) => ({
+        confirmationNumber: entry.confirmationNumber,
+        status: entry.status,
+        bookedAt: entry.timestamp,
+        profile: entry.formState?.profile,
+        earliestTime: entry.formState?.earliestTime,
+        latestTime: entry.formState?.latestTime,
+      })),
+      formState,
+    });
+  }
+
+  /**
+   * Runs an operation that uses the shared browser session while holding
+   * the session lock, so no other command drives the same tab meanwhile.
+   * A session still busy after the wait comes back as SESSION_BUSY.
+   *
+   * @param operation - Command name, shown to commands waiting for the lock
+   * @param waitSeconds - How long to wait for a busy session (default: lock.waitSeconds, else 0)
+   */
+  private async exclusive(operation: string, waitSeconds: number | undefined, run: () => Promise<any>): Promise<any> {
+    let lock: SessionLock;
     try {
-      await page.evaluate(() => {
-        document.querySelectorAll('#onetrust-consent-sdk, .onetrust-pc-dark-filter').forEach(el => el.remove());
+      lock = await acquireLock(operation, {
+        waitSeconds: waitSeconds ?? this.config.lock?.waitSeconds,
+        ttlSeconds: this.config.lock?.ttlSeconds,
       });
-    } catch {
-      // Ignore errors
+    } catch (error) {
+      return toErrorResult(error);
+    }
+    try {
+      const result = await run();
+      if (result && lock.recovered) {
+        result.recoveredLock = lock.recovered;
+      }
+      return result;
+    } finally {
+      lock.release();
     }
   }
 
-  private async login(): Promise<boolean> {
-    const page = await this.ensureBrowser();
-
-    // Navigate to login page - use domcontentloaded for faster initial load, then wait for page to stabilize
-    await page.goto(UPS_LOGIN_URL, { waitUntil: "domcontentloaded", timeout: 90000 });
-    // Give the page extra time to load dynamic content
-    await page.waitForTimeout(5000);
-
-    // Handle cookie consent banners (OneTrust, etc.)
-    await this.dismissCookieBanners(page);
-
-    // Take screenshot of login page to see what we're working with
-    const loginScreenshot = `${SCREENSHOT_DIR}/ups-login-page-${Date.now()}.png`;
-    await page.screenshot({ path: loginScreenshot, fullPage: true });
-
-    // UPS now uses Auth0-style login (id.ups.com) with two-step flow:
-    // Step 1: Enter username/email
-    // Step 2: Enter password
-
-    // Wait for username/email field - try multiple selectors for Auth0 login
-    const usernameSelectors = [
-      'input[name="username"]',        // Auth0 common
-      'input[id="username"]',          // Auth0 common
-      'input[type="email"]',
-      'input[name="email"]',
-      '#email',
-      'input[id*="email"]',
-      'input[placeholder*="email" i]',
-      'input[placeholder*="username" i]',
-    ];
-
-    let usernameField = null;
-    for (const selector of usernameSelectors) {
+  /**
+   * Runs a driver operation as one run and attaches its diagnostics:
+   * the selector-health summary, the launch profile used, any retried steps
+   * and, when traced, the artifact bundle.
+   *
+   * An error the driver throws (rejected credentials, a crashed browser)
+   * comes back as an error result, so callers record and report it like
+   * any other failure. Diagnostics are saved for it too, since a failed run
+   * is exactly what they are for.
+   */
+  private async runDriver(run: RunOptions, operation: () => Promise<any>): Promise<any> {
+    const startedAt = new Date().toISOString();
+    this.driver.startRun(run);
+    let result: any;
+    let failure: unknown;
+    try {
+      result = await operation();
+    } catch (error) {
+      failure = error;
+      result = toErrorResult(error);
+    } finally {
+      try {
+        this.settleSession(run.operation, result, failure);
+      } catch (error: any) {
+        if (result) {
+          result.sessionError = error.message;
+        }
+      }
       try {
-        usernameField = await page.waitForSelector(selector, { timeout: 10000 });
-        if (usernameField) break;
+        const selectorHealth = this.driver.saveSelectorHealth();
+        const artifacts = await this.driver.finishRun();
+        if (artifacts) {
+          // Cleanup keeps runs that hold a confirmation number
+          writeRunRecord(artifacts.dir, {
+            runId: artifacts.runId,
+            operation: run.operation,
+            startedAt,
+            finishedAt: new Date().toISOString(),
+            success: !!result?.success,
+            code: failure ? errorCodeOf(failure) : result?.code,
+            confirmationNumber: result?.confirmation?.confirmationNumber ?? null,
+          });
+        }
+        if (result && selectorHealth) {
+          result.selectorHealth = selectorHealth;
+        }
+        if (result && artifacts) {
+          result.artifacts = artifacts;
+        }
+        const launchProfile = this.driver.launchProfile();
+        if (result && launchProfile) {
+          result.launchProfile = launchProfile;
+        }
+        const retries = this.driver.retries();
+        if (result && retries.length > 0) {
+          result.retries = retries;
+        }
       } catch {
-        continue;
+        // Diagnostics only; never fail a booking over them
       }
     }
+    return result;
+  }
 
-    if (!usernameField) {
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-login-error-no-username-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-      throw new Error(`Could not find username field. See screenshot: ${errorScreenshot}`);
+  /**
+   * Moves the session to submitted or failed once a booking operation ends.
+   * The driver moves it through the earlier states itself.
+   *
+   * A submit UPS accepted but whose confirmation we could not read still
+   * counts as submitted, so it cannot be submitted again.
+   */
+  private settleSession(operation: string, result: any, failure: unknown): void {
+    if (!["fill-form", "submit", "book"].includes(operation)) {
+      return;
     }
-
-    // Fill username
-    await usernameField.fill(this.config.ups.username);
-
-    // Click continue/next button for two-step login
-    const continueButton = await page.$('button[type="submit"], button:has-text("Continue"), button:has-text("Next"), input[type="submit"]');
-    if (continueButton) {
-      await continueButton.click({ force: true });
-      await page.waitForTimeout(2000);
-      // Dismiss any cookie banners that might have appeared
-      await this.dismissCookieBanners(page);
+    if (failure || result?.error) {
+      if (operation !== "fill-form" && result?.code === "CONFIRMATION_NOT_PARSED") {
+        transitionSession("submitted");
+      } else {
+        transitionSession("failed");
+      }
+    } else if (operation !== "fill-form") {
+      transitionSession("submitted");
     }
+  }
 
-    // Wait for password field to appear (may be on same page or new step)
-    const passwordSelectors = [
-      'input[type="password"]',
-      'input[name="password"]',
-      '#password',
-      'input[id*="password"]',
-    ];
-
-    let passwordField = null;
-    for (const selector of passwordSelectors) {
-      try {
-        passwordField = await page.waitForSelector(selector, { timeout: 15000 });
-        if (passwordField) break;
-      } catch {
-        continue;
+  /**
+   * Writes a submit/book attempt to the booking ledger and returns the result unchanged.
+   *
+   * A ledger write failure is reported on the result rather than failing the booking.
+   */
+  private recordAttempt(operation: string, formState: FormState | undefined, result: any): any {
+    const confirmationNumber: string | null =
+      result.confirmation?.confirmationNumber ?? result.confirmationNumber ?? null;
+    let status: LedgerStatus = "failed";
+    if (result.success) {
+      if (operation === "cancel") {
+        status = "cancelled";
+      } else {
+        status = confirmationNumber ? "booked" : "unconfirmed";
       }
+    } else if (result.code === "CONFIRMATION_NOT_PARSED") {
+      // Submitted, but we could not read back a confirmation number
+      status = "unconfirmed";
     }
 
-    if (!passwordField) {
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-login-error-no-password-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-      throw new Error(`Could not find password field. See screenshot: ${errorScreenshot}`);
+    const screenshots = screenshotsOf(result);
+    const confirmation = parsedConfirmation(result);
+
+    try {
+      appendLedgerEntry(this.config.ledgerPath || LEDGER_PATH, {
+        timestamp: new Date().toISOString(),
+        operation,
+        status,
+        confirmationNumber,
+        formState,
+        confirmation,
+        screenshots,
+        message: result.message,
+      });
+    } catch (error: any) {
+      result.ledgerError = `Failed to write booking ledger: ${error.message}`;
     }
 
-    // Fill password
-    await passwordField.fill(this.config.ups.password);
+    return result;
+  }
 
-    // Click login/submit button
-    const loginButton = await page.$('button[type="submit"], input[type="submit"], button:has-text("Log In"), button:has-text("Sign In"), button:has-text("Continue")');
-    if (loginButton) {
-      await loginButton.click({ force: true });
+  /**
+   * Posts an operation's outcome to the configured webhooks and reports
+   * each delivery on the result as `webhooks`.
+   */
+  private async notify(event: WebhookEvent, formState: FormState | undefined, result: any): Promise<any> {
+    const webhooks = this.config.webhooks;
+    if (!webhooks || Object.keys(webhooks).length === 0) {
+      return result;
+    }
+    const deliveries = await deliverWebhooks(webhooks, {
+      event,
+      outcome: result.success ? "success" : "failure",
+      code: result.code ?? null,
+      message: result.message ?? null,
+      timestamp: new Date().toISOString(),
+      driver: this.driver.name,
+      runId: result.artifacts?.runId ?? null,
+      formState: formState ?? null,
+      confirmation: parsedConfirmation(result) ?? null,
+      screenshots: screenshotsOf(result),
+    });
+    if (deliveries.length > 0) {
+      result.webhooks = deliveries;
     }
+    return result;
+  }
 
-    // Wait for successful login - either redirect to form or user icon appears
+  /**
+   * Writes an .ics file for a finished booking or cancellation and notes it
+   * on the result. The booking stands even if the file cannot be written.
+   */
+  private attachIcs(path: string | undefined, method: CalendarMethod, formState: FormState | undefined, result: any): any {
+    const confirmationNumber = result.confirmation?.confirmationNumber ?? result.confirmationNumber;
+    if (!path || !result.success) {
+      return result;
+    }
+    if (!confirmationNumber || !formState) {
+      result.icsError = "No confirmation number or collection details to build the calendar event from";
+      return result;
+    }
     try {
-      await Promise.race([
-        page.waitForURL(/pickup|wwwapps\.ups\.com/, { timeout: 60000 }),
-        page.waitForSelector('[aria-label*="account"], [aria-label*="user"], .user-menu, [data-testid*="account"]', { timeout: 60000 }),
-      ]);
-    } catch {
-      // Take screenshot of login failure
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-login-error-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-      throw new Error(`Login failed. See screenshot: ${errorScreenshot}`);
+      writeCalendar(path, buildCalendar([{ confirmationNumber, formState, confirmation: result.confirmation }], method));
+      result.ics = path;
+    } catch (error: any) {
+      result.icsError = `Failed to write calendar file: ${error.message}`;
     }
-
-    this.updateSession({ loggedIn: true });
-    return true;
+    return result;
   }
 
   // ============================================
-  // SMART DEFAULTS
+  // COLLECTION DATES
   // ============================================
 
-  /** Calculates the next valid collection date based on UK time. */
-  private getSmartDate(): string {
-    const now = new Date();
-    // Convert to UK time
-    const ukTime = new Date(now.toLocaleString("en-US", { timeZone: "Europe/London" }));
-    const hour = ukTime.getHours();
-
-    // If after 1 PM UK time, default to next business day
-    let targetDate = new Date(ukTime);
-    if (hour >= 13) {
-      targetDate.setDate(targetDate.getDate() + 1);
-    }
-
-    // Skip weekends
-    while (targetDate.getDay() === 0 || targetDate.getDay() === 6) {
-      targetDate.setDate(targetDate.getDate() + 1);
-    }
-
-    return targetDate.toISOString().split("T")[0];
-  }
-
-  /** Calculates the earliest collection time based on current UK time. */
-  private getSmartEarliestTime(): string {
-    const now = new Date();
-    const ukTime = new Date(now.toLocaleString("en-US", { timeZone: "Europe/London" }));
-    const hour = ukTime.getHours();
+  /**
+   * Lists the next valid collection dates.
+   *
+   * Skips non-working days, UK bank holidays and configured closures,
+   * and today once the same-day cutoff (UK time) has passed.
+   *
+   * @param count - Number of dates to return (default: 5)
+   * @returns Dates with weekday names, plus every skipped day and why
+   */
+  async nextDates(count = 5): Promise<any> {
+    const now = londonNow();
+    const { dates, skipped } = this.calendar.nextDates(count);
 
-    // If collecting today and past noon, round up to next hour
-    if (hour >= 12 && hour < 17) {
-      return `${hour + 1}:00`;
-    }
-    return "12:00";
+    return {
+      success: true,
+      now: `${now.date} ${now.time} Europe/London`,
+      cutoff: this.calendar.cutoff,
+      dates: dates.map((date) => ({ date, weekday: weekdayName(date) })),
+      skipped,
+    };
   }
 
   // ============================================
@@ -413,308 +589,255 @@ export class UPSClient {
   // ============================================
 
   /**
-   * Fills the UPS collection booking form.
+   * Prepares a collection for review without booking it.
    *
-   * Logs in if needed, navigates to the collection form, and fills
-   * all fields with provided values or smart defaults.
+   * With the browser driver this logs in and fills the UPS form; with the
+   * api driver it rates the pickup.
    *
    * @param options - Collection details
+   * @param options.profile - Collection profile name from config (default: defaultProfile)
    * @param options.date - Collection date (YYYY-MM-DD), defaults to next business day
    * @param options.packages - Number of packages (default: 1)
    * @param options.weight - Total weight in kg (default: 10)
    * @param options.earliestTime - Earliest collection time (HH:MM)
    * @param options.latestTime - Latest collection time (HH:MM)
-   * @param options.doorCode - Door access code (added to special instructions)
+   * @param options.doorCode - Door access code (added to special instructions; looked up from "doorCode" in config.json when omitted)
    * @param options.specialInstructions - Additional pickup instructions
+   * @param options.manifest - Parcel manifest (JSON or CSV); sets packages and weight, and is checked against the UPS limits
+   * @param options.allowDuplicate - Proceed even if this date and address is already booked
+   * @param options.dryRun - Return the plan instead of running it (see plan())
+   * @param options.trace - Record a Playwright trace and HAR into a run folder (closes the browser afterwards)
    * @returns Result with screenshot path and form state
    */
   async fillForm(options: FillFormOptions): Promise<any> {
-    const page = await this.ensureBrowser();
-
-    // Login first
-    await this.login();
-
-    // Navigate to collection form
-    await page.goto(UPS_FORM_URL, { waitUntil: "domcontentloaded", timeout: 60000 });
-
-    // Handle any cookie banners on form page
-    await this.dismissCookieBanners(page);
-
-    // Wait for form to load
-    await page.waitForTimeout(3000);
-
-    // Apply smart defaults
-    const date = options.date || this.getSmartDate();
-    const earliestTime = options.earliestTime || this.getSmartEarliestTime();
-    const packages = options.packages || 1;
-    const weight = options.weight || 10;
-
-    // Build special instructions
-    let specialInstructions = options.specialInstructions;
-    if (!specialInstructions && options.doorCode) {
-      specialInstructions = `Door code * ${options.doorCode} #`;
+    if (options.dryRun) {
+      return this.plan(options, "fill-form");
     }
 
-    // Take initial screenshot to see what we're working with
-    const initialScreenshot = `${SCREENSHOT_DIR}/ups-form-initial-${Date.now()}.png`;
-    await page.screenshot({ path: initialScreenshot, fullPage: true });
+    return this.exclusive("fill-form", options.wait, async () => {
+      // Resolve before launching anything so a bad profile or missing door code fails fast
+      const { options: resolved, doorCode } = await this.resolveDoorCode(options);
+      if (doorCode && !doorCode.code) {
+        return this.noDoorCode(doorCode);
+      }
+      const formState = this.resolveFormState(resolved);
 
-    // The UPS form is complex - we need to identify elements by their labels/structure
-    // This is a simplified approach - real implementation may need adjustments based on actual form
+      const invalid = this.rejectInvalid(formState, resolved);
+      if (invalid) {
+        return invalid;
+      }
 
-    try {
-      // IMPORTANT: Must select "A different collection address" radio button
-      // The UPS form defaults to saved account address which is London, not YOUR_CITY
-      const differentAddressSelectors = [
-        'input[type="radio"][value="NEW"]',
-        'input[type="radio"][id*="different"]',
-        'input[type="radio"][id*="new"]',
-        'label:has-text("different collection address") input[type="radio"]',
-        'label:has-text("A different collection") input[type="radio"]',
-      ];
-
-      let radioClicked = false;
-      for (const selector of differentAddressSelectors) {
-        try {
-          const radio = await page.$(selector);
-          if (radio) {
-            await radio.click({ force: true });
-            radioClicked = true;
-            await page.waitForTimeout(1000); // Wait for form fields to appear
-            break;
-          }
-        } catch {
-          continue;
-        }
+      const duplicate = this.checkDuplicate(formState, options.allowDuplicate);
+      if (duplicate) {
+        return duplicate;
       }
 
-      // If selectors failed, try clicking by label text via JavaScript
-      if (!radioClicked) {
-        await page.evaluate(() => {
-          // Find all radio buttons and their labels
-          const radios = document.querySelectorAll('input[type="radio"]');
-          radios.forEach(radio => {
-            const label = document.querySelector(`label[for="${radio.id}"]`);
-            const labelText = label?.textContent?.toLowerCase() || '';
-            if (labelText.includes('different') && labelText.includes('collection')) {
-              (radio as HTMLInputElement).click();
-            }
-          });
+      const run = { operation: "fill-form", trace: options.trace, launch: options.launch, verificationCode: options.verificationCode };
+      const result = await this.runDriver(run, () => this.driver.fillForm(formState));
+      if (doorCode) {
+        result.doorCodeFrom = doorCodeFrom(doorCode);
+      }
+      await this.notify("fill-form", formState, result);
+
+      if (result.success) {
+        // Keep the form state (and trace folder) for submit()
+        updateSession({
+          driver: this.driver.name,
+          formState,
+          runId: result.artifacts?.runId,
+          trace: options.trace,
         });
-        await page.waitForTimeout(1000);
       }
 
-      // Fill company name
-      await this.fillField(page, ["Company", "Company Name", "company"], DEFAULTS.company);
-
-      // Fill address
-      await this.fillField(page, ["Address Line 1", "Address", "Street Address", "addressLine1"], DEFAULTS.address);
+      return result;
+    });
+  }
 
-      // Fill city
-      await this.fillField(page, ["City", "Town", "city"], DEFAULTS.city);
+  /**
+   * Submits the filled collection form.
+   *
+   * Must be called after fillForm(), and only once per filled form.
+   *
+   * @param options.trace - Record a trace and HAR (on by default after a traced fillForm())
+   * @returns Result with confirmation details and screenshots
+   */
+  async submit(options: SubmitOptions = {}): Promise<any> {
+    return this.exclusive("submit", options.wait, async () => {
+      // Only a filled (or reviewed) form can be submitted
+      const session = readSession();
+      const state = session?.state ?? "idle";
+      if (state !== "form-filled" && state !== "reviewed") {
+        const message = state === "submitted"
+          ? "This collection has already been submitted. Call fill-form to start another."
+          : `Form has not been filled yet (session is ${state}). Call fill-form first.`;
+        return errorResult("FORM_NOT_FILLED", message, { state });
+      }
+      const formState = session?.formState;
+      const verificationIssue = options.verificationCode !== undefined && verificationCodeProblem(options.verificationCode);
+      if (verificationIssue) {
+        return errorResult("INVALID_INPUT", verificationIssue, { problems: [verificationIssue] });
+      }
 
-      // Fill postal code
-      await this.fillField(page, ["Postal Code", "Postcode", "ZIP", "postalCode"], DEFAULTS.postalCode);
+      // Continue the fill-form run; a traced fill-form keeps tracing
+      const run = {
+        operation: "submit",
+        trace: options.trace ?? session?.trace,
+        runId: session?.runId,
+        launch: options.launch,
+        verificationCode: options.verificationCode,
+      };
+      const result = await this.runDriver(run, () => this.driver.submit(formState));
+      this.attachIcs(options.ics, "PUBLISH", formState, this.recordAttempt("submit", formState, result));
+      return this.notify("submit", formState, result);
+    });
+  }
 
-      // Fill telephone
-      await this.fillField(page, ["Telephone", "Phone", "Contact Number", "telephone"], DEFAULTS.telephone);
+  /**
+   * Books a collection in one step (fill + submit).
+   *
+   * @param options - Collection details (same as fillForm)
+   * @returns Result with fill/review/confirmation screenshots and booking details
+   */
+  async book(options: FillFormOptions): Promise<any> {
+    if (options.dryRun) {
+      return this.plan(options, "book");
+    }
 
-      // Fill package count
-      await this.fillField(page, ["Package", "Packages", "Number of Packages"], String(packages));
+    return this.exclusive("book", options.wait, async () => {
+      const { options: resolved, doorCode } = await this.resolveDoorCode(options);
+      if (doorCode && !doorCode.code) {
+        return this.noDoorCode(doorCode);
+      }
+      const formState = this.resolveFormState(resolved);
 
-      // Fill weight
-      await this.fillField(page, ["Weight", "Total Weight"], String(weight));
+      const invalid = this.rejectInvalid(formState, resolved);
+      if (invalid) {
+        return invalid;
+      }
 
-      // Fill special instructions
-      if (specialInstructions) {
-        await this.fillField(page, ["Special Instructions", "Instructions", "Notes"], specialInstructions);
+      const duplicate = this.checkDuplicate(formState, options.allowDuplicate);
+      if (duplicate) {
+        return duplicate;
       }
 
-      // Select collection location
-      await this.selectOption(page, ["Preferred Collection Location", "Collect From", "Collection Location"], "Front Door");
-
-      // Fill notification email
-      await this.fillField(page, ["Email", "Notification Email", "email"], DEFAULTS.email);
-
-      // Select collection date from dropdown
-      // The date is in format YYYY-MM-DD, but dropdown shows "Friday, January 16, 2026"
-      // We need to match by the date portion
-      const dateObj = new Date(date + 'T12:00:00');
-      const dateOptions: Intl.DateTimeFormatOptions = {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-      };
-      const formattedDate = dateObj.toLocaleDateString('en-GB', dateOptions);
-
-      // Try to select date from dropdown
-      await page.evaluate((searchDate) => {
-        const selects = document.querySelectorAll('select');
-        selects.forEach(select => {
-          const options = Array.from(select.options);
-          const matchingOption = options.find(opt =>
-            opt.text.toLowerCase().includes(searchDate.toLowerCase()) ||
-            opt.text.includes(searchDate.split(', ').pop() || '') // Try matching by date portion
-          );
-          if (matchingOption) {
-            select.value = matchingOption.value;
-            select.dispatchEvent(new Event('change', { bubbles: true }));
-          }
-        });
-      }, formattedDate);
-
-      // Also try with the day number
-      const dayNum = dateObj.getDate();
-      const monthName = dateObj.toLocaleDateString('en-GB', { month: 'long' });
-      await page.evaluate(({ day, month }: { day: number; month: string }) => {
-        const selects = document.querySelectorAll('select');
-        selects.forEach(select => {
-          const options = Array.from(select.options);
-          const matchingOption = options.find(opt =>
-            opt.text.includes(String(day)) && opt.text.toLowerCase().includes(month.toLowerCase())
-          );
-          if (matchingOption && !select.value.includes('January')) {
-            select.value = matchingOption.value;
-            select.dispatchEvent(new Event('change', { bubbles: true }));
-          }
-        });
-      }, { day: dayNum, month: monthName });
-
-      await page.waitForTimeout(500);
-
-      // Select time dropdowns if present
-      // Earliest time
-      if (earliestTime) {
-        const [hour] = earliestTime.split(':');
-        await page.evaluate((h: string) => {
-          // Find hour selects
-          const selects = document.querySelectorAll('select');
-          let foundEarliest = false;
-          selects.forEach(select => {
-            const label = select.closest('div')?.querySelector('label')?.textContent?.toLowerCase() || '';
-            if (label.includes('earliest') && !foundEarliest) {
-              // This might be the hour select
-              const hourOpt = Array.from(select.options).find(opt => opt.text.trim() === h || opt.value === h);
-              if (hourOpt) {
-                select.value = hourOpt.value;
-                select.dispatchEvent(new Event('change', { bubbles: true }));
-                foundEarliest = true;
-              }
-            }
-          });
-        }, hour);
+      const run = { operation: "book", trace: options.trace, launch: options.launch, verificationCode: options.verificationCode };
+      const result = await this.runDriver(run, () => this.driver.book(formState));
+      if (doorCode) {
+        result.doorCodeFrom = doorCodeFrom(doorCode);
       }
+      const booked = result.formState || formState;
+      this.attachIcs(options.ics, "PUBLISH", booked, this.recordAttempt("book", booked, result));
+      return this.notify("book", booked, result);
+    });
+  }
 
-    } catch (formError: any) {
-      // Take screenshot of form error
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-form-error-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-      return {
-        error: true,
-        message: `Form fill error: ${formError.message}`,
-        screenshot: errorScreenshot,
-      };
+  /**
+   * Resolves and checks a collection without launching a browser or calling UPS.
+   *
+   * Runs the same profile, date, door-code and duplicate checks as a real
+   * run, and lists the steps the driver would take. A door code that would
+   * be fetched from a command, endpoint or file is not looked up; the
+   * sources are listed instead.
+   *
+   * @param options - Collection details (same as fillForm)
+   * @param operation - Command being previewed: "fill-form" or "book"
+   * @returns Resolved form state, problems, warnings and planned steps
+   */
+  async plan(options: FillFormOptions, operation: PlanOperation): Promise<any> {
+    const pending = this.pendingDoorCodeSources(options);
+    const { options: resolved, doorCode } = pending.length > 0 ? { options, doorCode: null } : await this.resolveDoorCode(options);
+    const formState = this.resolveFormState(resolved);
+    const validation = this.validateFormState(formState, resolved, pending.length > 0);
+    const { problems, warnings } = validation;
+    let code = validation.code;
+    if (pending.length > 0) {
+      warnings.push(`Door code not looked up in a dry run; a real run tries ${pending.join(", then ")}`);
+    }
+    if (doorCode && !doorCode.code) {
+      problems.push(this.noDoorCode(doorCode).message);
+      code = code || "DOOR_CODE_UNAVAILABLE";
+    }
+    const duplicate = this.checkDuplicate(formState, options.allowDuplicate);
+    if (duplicate) {
+      problems.push(duplicate.message);
     }
 
-    // Take preview screenshot
-    const previewScreenshot = `${SCREENSHOT_DIR}/ups-form-preview-${Date.now()}.png`;
-    await page.screenshot({ path: previewScreenshot, fullPage: true });
-
-    // Update session
-    this.updateSession({ formFilled: true });
-
-    // Extract what we filled
-    const formState: FormState = {
-      date,
-      packages,
-      weight,
-      earliestTime,
-      latestTime: options.latestTime || "18:00",
-      specialInstructions,
-      company: DEFAULTS.company,
-      address: DEFAULTS.address,
-      city: DEFAULTS.city,
-      postalCode: DEFAULTS.postalCode,
+    const plan = {
+      dryRun: true,
+      operation,
+      driver: this.driver.name,
+      formState,
+      ...(doorCode ? { doorCodeFrom: doorCodeFrom(doorCode) } : {}),
+      ...(pending.length > 0 ? { doorCodeFrom: { source: pending[0], sources: pending, lookedUp: false } } : {}),
+      problems,
+      warnings,
+      alreadyBooked: duplicate ? duplicate.existing : [],
+      steps: this.driver.plan(formState, operation, options.launch),
     };
-
+    if (problems.length > 0) {
+      return errorResult(
+        code || "ALREADY_BOOKED",
+        `Dry run: ${operation} would be refused: ${problems.join("; ")}`,
+        { success: false, ...plan }
+      );
+    }
     return {
       success: true,
-      screenshot: previewScreenshot,
-      formState,
-      message: "Form filled successfully. Please review the screenshot before calling submit.",
+      message: `Dry run: ${operation} would run for ${formState.date} at ${formState.address}. Nothing was sent to UPS.`,
+      ...plan,
     };
   }
 
-  private async fillField(page: Page, labelVariants: string[], value: string): Promise<void> {
-    for (const label of labelVariants) {
-      try {
-        // Try by aria-label
-        let field = await page.$(`input[aria-label*="${label}" i], textarea[aria-label*="${label}" i]`);
-        if (field) {
-          await field.fill(value);
-          return;
-        }
-
-        // Try by placeholder
-        field = await page.$(`input[placeholder*="${label}" i], textarea[placeholder*="${label}" i]`);
-        if (field) {
-          await field.fill(value);
-          return;
-        }
-
-        // Try by label text
-        const labelEl = await page.$(`label:has-text("${label}")`);
-        if (labelEl) {
-          const forAttr = await labelEl.getAttribute("for");
-          if (forAttr) {
-            field = await page.$(`#${forAttr}`);
-            if (field) {
-              await field.fill(value);
-              return;
-            }
-          }
-          // Try sibling input
-          field = await labelEl.$("xpath=following-sibling::input | following-sibling::textarea | ../input | ../textarea");
-          if (field) {
-            await field.fill(value);
-            return;
-          }
-        }
+  // ============================================
+  // CANCELLATION
+  // ============================================
 
-        // Try by name attribute
-        field = await page.$(`input[name*="${label.toLowerCase().replace(/\s+/g, '')}" i], textarea[name*="${label.toLowerCase().replace(/\s+/g, '')}" i]`);
-        if (field) {
-          await field.fill(value);
-          return;
-        }
-      } catch {
-        // Continue to next variant
+  /**
+   * Cancels a scheduled collection by confirmation number.
+   *
+   * Two-stage like fill-form/submit: without `confirm` it locates the
+   * pickup and returns a preview; with `confirm` it performs the cancellation.
+   *
+   * @param options - Cancellation details
+   * @param options.confirmation - Confirmation number of the collection to cancel
+   * @param options.confirm - Actually cancel (requires a prior preview of the same pickup)
+   * @returns Result with pickup details, screenshot and cancellation outcome
+   */
+  async cancel(options: CancelOptions): Promise<any> {
+    return this.exclusive("cancel", options.wait, async () => {
+      const confirmationNumber = options.confirmation.trim();
+
+      // Check the same pickup was previewed in this session (no session means no preview)
+      if (options.confirm && readSession()?.pendingCancellation !== confirmationNumber) {
+        return errorResult(
+          "INVALID_STATE",
+          `Cancellation of ${confirmationNumber} has not been previewed. Call cancel without --confirm first.`
+        );
       }
-    }
-    // Field not found - not throwing to allow partial form fills
-  }
 
-  private async selectOption(page: Page, labelVariants: string[], value: string): Promise<void> {
-    for (const label of labelVariants) {
-      try {
-        // Try select dropdown
-        const select = await page.$(`select[aria-label*="${label}" i], select[name*="${label.toLowerCase().replace(/\s+/g, '')}" i]`);
-        if (select) {
-          await select.selectOption({ label: value });
-          return;
-        }
+      // Pull what we recorded at booking time, if anything
+      const [booking] = readLedger(this.config.ledgerPath || LEDGER_PATH, {
+        confirmation: confirmationNumber,
+        status: "booked",
+        limit: 1,
+      });
+      const formState = booking?.formState;
+
+      const result = await this.runDriver({ operation: "cancel", launch: options.launch }, () =>
+        this.driver.cancel(confirmationNumber, !!options.confirm, formState)
+      );
 
-        // Try radio buttons
-        const radio = await page.$(`input[type="radio"][value*="${value}" i], label:has-text("${value}") input[type="radio"]`);
-        if (radio) {
-          await radio.click();
-          return;
+      if (!options.confirm) {
+        if (result.success) {
+          updateSession({ pendingCancellation: confirmationNumber });
         }
-      } catch {
-        // Continue to next variant
+        return { ...result, formState };
       }
-    }
+
+      updateSession({ pendingCancellation: undefined });
+      this.attachIcs(options.ics, "CANCEL", formState, this.recordAttempt("cancel", formState, result));
+      return this.notify("cancel", formState, result);
+    });
   }
 
   // ============================================
@@ -730,335 +853,359 @@ export class UPSClient {
    * @returns Result with screenshot path
    */
   async takeScreenshot(options?: ScreenshotOptions): Promise<any> {
-    const page = await this.ensureBrowser();
-
-    const filename = options?.filename || `ups-${Date.now()}.png`;
-    const screenshotPath = `${SCREENSHOT_DIR}/${filename}`;
-
-    await page.screenshot({
-      path: screenshotPath,
-      fullPage: options?.fullPage ?? false,
+    return this.exclusive("screenshot", undefined, async () => {
+      return this.driver.takeScreenshot(options);
     });
-
-    return {
-      success: true,
-      screenshot: screenshotPath,
-    };
   }
 
+  // ============================================
+  // SCHEDULES
+  // ============================================
+
   /**
-   * Submits the filled collection form.
+   * Books the next slot of each recurring schedule that is not booked yet.
    *
-   * Must be called after fillForm(). Navigates through review page
-   * and submits the booking.
+   * Safe to run from cron at any time: a slot already in the ledger (booked
+   * or unconfirmed) is skipped, and each booking goes through book() under
+   * the session lock, so repeated or overlapping runs never book twice.
    *
-   * @returns Result with confirmation details and screenshots
-   * @throws {Error} If form has not been filled yet
+   * @param options.schedule - Only run this schedule (default: every enabled one)
+   * @param options.dryRun - Report which slots are due without booking them
+   * @returns Every booked, skipped, failed (or due) slot with the reason;
+   *   an error result with the first failure's code if any booking failed
    */
-  async submit(): Promise<any> {
-    const page = await this.ensureBrowser();
-
-    // Check if form was filled
-    if (existsSync(SESSION_PATH)) {
-      const session: SessionInfo = JSON.parse(readFileSync(SESSION_PATH, "utf-8"));
-      if (!session.formFilled) {
-        return {
-          error: true,
-          message: "Form has not been filled yet. Call fill-form first.",
-        };
-      }
+  async runSchedule(options: RunScheduleOptions = {}): Promise<any> {
+    const schedules = this.config.schedules || {};
+    if (options.schedule && !schedules[options.schedule]) {
+      const available = Object.keys(schedules);
+      throw new UPSError(
+        "INVALID_INPUT",
+        `Unknown schedule "${options.schedule}". ${available.length > 0 ? `Available: ${available.join(", ")}` : "No schedules in config.json"}`
+      );
     }
-
-    try {
-      // Click Next/Submit/Continue button to go to review page
-      const nextButton = await page.$('button:has-text("Next"), button:has-text("Continue"), button:has-text("Review"), button[type="submit"]');
-      if (nextButton) {
-        await nextButton.click();
-        await page.waitForLoadState("networkidle");
-        await page.waitForTimeout(2000);
+    const names = options.schedule
+      ? [options.schedule]
+      : Object.keys(schedules).filter((name) => schedules[name].enabled !== false);
+
+    const outcomes: ScheduleOutcome[] = [];
+    for (const name of names) {
+      const rule = schedules[name];
+      const { date, passedOver } = nextSlot(rule, this.calendar);
+      for (const day of passedOver) {
+        outcomes.push({ schedule: name, date: day.date, status: "skipped", reason: day.reason });
       }
-
-      // Take screenshot of review page
-      const reviewScreenshot = `${SCREENSHOT_DIR}/ups-review-${Date.now()}.png`;
-      await page.screenshot({ path: reviewScreenshot, fullPage: true });
-
-      // Look for final submit button on review page
-      const submitButton = await page.$('button:has-text("Submit"), button:has-text("Confirm"), button:has-text("Schedule"), button[type="submit"]');
-      if (submitButton) {
-        await submitButton.click();
-        await page.waitForLoadState("networkidle");
-        await page.waitForTimeout(3000);
+      if (!date) {
+        outcomes.push({ schedule: name, date: null, status: "skipped", reason: "No collection day for this schedule in the next year" });
+        continue;
       }
 
-      // Take confirmation screenshot
-      const confirmationScreenshot = `${SCREENSHOT_DIR}/ups-confirmation-${Date.now()}.png`;
-      await page.screenshot({ path: confirmationScreenshot, fullPage: true });
-
-      // Try to extract confirmation details from page
-      const confirmation = await this.extractConfirmation(page);
-
-      return {
-        success: true,
-        screenshot: confirmationScreenshot,
-        reviewScreenshot,
-        confirmation,
-        message: "Collection submitted successfully.",
-      };
-    } catch (error: any) {
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-submit-error-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-
-      return {
-        error: true,
-        message: `Submit failed: ${error.message}`,
-        screenshot: errorScreenshot,
-      };
-    }
-  }
-
-  private async extractConfirmation(page: Page): Promise<Record<string, any>> {
-    try {
-      return await page.evaluate(() => {
-        const text = document.body.innerText;
-
-        // Try to find confirmation number
-        const confirmationPatterns = [
-          /Confirmation[:\s#]*([A-Z0-9]+)/i,
-          /Request[:\s#]*([A-Z0-9]+)/i,
-          /Reference[:\s#]*([A-Z0-9]+)/i,
-          /Pickup[:\s#]*([A-Z0-9]+)/i,
-        ];
-
-        let confirmationNumber = null;
-        for (const pattern of confirmationPatterns) {
-          const match = text.match(pattern);
-          if (match) {
-            confirmationNumber = match[1];
-            break;
-          }
+      let result: any;
+      try {
+        // A slot someone cancelled is left cancelled, unless it has been booked again since
+        const ledgerPath = this.config.ledgerPath || LEDGER_PATH;
+        const formState = this.resolveFormState(scheduleOptions(rule, date));
+        const [cancelled] = findCancelledBookings(ledgerPath, formState);
+        if (cancelled && findActiveBookings(ledgerPath, formState).length === 0) {
+          outcomes.push({
+            schedule: name,
+            date,
+            status: "skipped",
+            reason: "Cancelled; book it by hand to collect after all",
+            confirmationNumber: cancelled.confirmationNumber,
+          });
+          continue;
         }
+        result = await this.book({ ...scheduleOptions(rule, date), dryRun: options.dryRun, launch: options.launch, wait: options.wait });
+      } catch (error) {
+        result = toErrorResult(error);
+      }
+      outcomes.push(scheduleOutcome(name, date, result));
+    }
 
-        // Try to find total charges
-        const chargesMatch = text.match(/Total[^:]*:\s*([\d.,]+\s*(?:GBP|£))/i);
-        const totalCharges = chargesMatch?.[1] || null;
-
-        // Try to find collection date
-        const dateMatch = text.match(/(?:Collection|Pickup)\s*Date[:\s]*([^,\n]+)/i);
-        const collectionDate = dateMatch?.[1]?.trim() || null;
+    const count = (status: string) => outcomes.filter((outcome) => outcome.status === status).length;
+    const summary = {
+      dryRun: !!options.dryRun,
+      booked: count("booked"),
+      skipped: count("skipped"),
+      failed: count("failed"),
+      due: count("due"),
+      outcomes,
+    };
+    const failures = outcomes.filter((outcome) => outcome.status === "failed");
+    if (failures.length > 0) {
+      return errorResult(
+        (failures[0].code as ErrorCode) || "UNKNOWN",
+        `${failures.length} scheduled collection(s) failed: ${failures.map((outcome) => `${outcome.schedule} ${outcome.date}: ${outcome.reason}`).join("; ")}`,
+        summary
+      );
+    }
 
-        return {
-          confirmationNumber,
-          totalCharges,
-          collectionDate,
-          pageText: text.substring(0, 3000),
-        };
-      });
-    } catch {
-      return { pageText: "Unable to extract confirmation details" };
+    let message = names.length === 0 ? "No schedules configured." : `Booked ${summary.booked}, skipped ${summary.skipped}.`;
+    if (options.dryRun) {
+      message = `Dry run: ${summary.due} due, ${summary.skipped} skipped. Nothing was sent to UPS.`;
     }
+    return { success: true, ...summary, message };
   }
 
   // ============================================
-  // SESSION MANAGEMENT
+  // HISTORY
   // ============================================
 
   /**
-   * Closes browser session and clears saved state.
+   * Lists recorded collection attempts from the booking ledger.
    *
-   * Call this to start fresh or after completing a booking.
+   * @param filter - Optional filters
+   * @param filter.from - Earliest collection date (YYYY-MM-DD)
+   * @param filter.to - Latest collection date (YYYY-MM-DD)
+   * @param filter.status - Outcome: booked, unconfirmed or failed
+   * @param filter.confirmation - Confirmation number
+   * @param filter.limit - Maximum entries to return
+   * @returns Matching ledger entries, newest first
+   */
+  async history(filter: LedgerFilter = {}): Promise<any> {
+    const entries = readLedger(this.config.ledgerPath || LEDGER_PATH, filter);
+    return {
+      success: true,
+      count: entries.length,
+      entries,
+    };
+  }
+
+  /**
+   * Writes booked collections from the ledger to one .ics file that any
+   * calendar can subscribe to. Cancelled collections stay in the file as
+   * cancelled events, so subscribers remove them.
    *
-   * @returns Success/error result
+   * @param options.from - Earliest collection date (YYYY-MM-DD)
+   * @param options.to - Latest collection date (YYYY-MM-DD)
+   * @param options.output - File to write (default: <artifactDir>/collections.ics)
+   * @returns The file path and the events written
    */
-  async reset(): Promise<any> {
-    try {
-      if (this.browser) {
-        await this.browser.close();
-        this.browser = null;
-        this.context = null;
-        this.page = null;
+  async exportIcs(options: ExportIcsOptions = {}): Promise<any> {
+    const entries = readLedger(this.config.ledgerPath || LEDGER_PATH, { from: options.from, to: options.to });
+
+    // Entries are newest first; the latest booking of a confirmation number wins
+    const events = new Map<string, CollectionEvent>();
+    const cancelled = new Set<string>();
+    for (const entry of entries) {
+      const confirmationNumber = entry.confirmationNumber?.toUpperCase();
+      if (!confirmationNumber || !entry.formState) {
+        continue;
       }
-
-      if (existsSync(SESSION_PATH)) {
-        unlinkSync(SESSION_PATH);
+      if (entry.status === "cancelled") {
+        cancelled.add(confirmationNumber);
+      } else if (entry.status === "booked" && !events.has(confirmationNumber)) {
+        events.set(confirmationNumber, {
+          confirmationNumber: entry.confirmationNumber!,
+          formState: entry.formState,
+          confirmation: entry.confirmation,
+        });
       }
-
-      return {
-        success: true,
-        message: "Browser session closed and cleared.",
-      };
-    } catch (error: any) {
-      return {
-        error: true,
-        message: `Reset failed: ${error.message}`,
-      };
     }
+    const collections = [...events.values()]
+      .map((event) => ({ ...event, cancelled: cancelled.has(event.confirmationNumber.toUpperCase()) }))
+      .sort((a, b) => a.formState.date.localeCompare(b.formState.date));
+
+    const path = options.output || join(resolveArtifactDir(this.config), "collections.ics");
+    writeCalendar(path, buildCalendar(collections));
+
+    return {
+      success: true,
+      path,
+      count: collections.length,
+      events: collections.map((event) => ({
+        uid: event.confirmationNumber,
+        date: event.formState.date,
+        window: `${event.formState.earliestTime}-${event.formState.latestTime}`,
+        status: event.cancelled ? "cancelled" : "confirmed",
+      })),
+      message: `Wrote ${collections.length} collection(s) to ${path}.`,
+    };
   }
 
+  // ============================================
+  // ARTIFACTS
+  // ============================================
+
   /**
-   * Books a collection in one step (fill + submit).
+   * Prunes run artifact folders by age and/or count.
    *
-   * Combines fillForm() and submit() into a single operation,
-   * keeping the browser session alive between steps.
+   * Runs that ended with a parsed confirmation number are always kept as
+   * proof of booking, and so are submits whose confirmation was not read.
+   * Deleting holds the session lock, so a run still being written is left
+   * alone.
    *
-   * @param options - Collection details (same as fillForm)
-   * @returns Result with fill/review/confirmation screenshots and booking details
+   * @param options.olderThan - Remove runs older than this (e.g. "30d", "12h", "2w")
+   * @param options.keepLast - Always keep this many of the newest runs
+   * @param options.dryRun - List what would be removed without deleting
+   * @returns Removed run IDs, counts kept and confirmed runs protected
    */
-  async book(options: FillFormOptions): Promise<any> {
-    // First, fill the form
-    const fillResult = await this.fillForm(options);
-
-    if (fillResult.error) {
-      return fillResult;
+  async cleanup(options: CleanupOptions): Promise<any> {
+    if (options.dryRun) {
+      return this.pruneArtifacts(options);
     }
+    return this.exclusive("cleanup", undefined, async () => this.pruneArtifacts(options));
+  }
 
-    // Small delay to let any JavaScript settle
-    if (this.page) {
-      await this.page.waitForTimeout(2000);
+  private async pruneArtifacts(options: CleanupOptions): Promise<any> {
+    const artifactDir = resolveArtifactDir(this.config);
+    let result;
+    try {
+      result = cleanupArtifacts(artifactDir, options);
+    } catch (error) {
+      return toErrorResult(error, "INVALID_INPUT");
     }
 
-    // Now submit - but we need to use the already-open page
-    // rather than calling ensureBrowser() which might launch a new browser
-    if (!this.page) {
-      return {
-        error: true,
-        message: "Browser page not available after fill",
-      };
-    }
+    return {
+      success: true,
+      dryRun: !!options.dryRun,
+      artifactDir,
+      ...result,
+      message: `${options.dryRun ? "Would remove" : "Removed"} ${result.removed.length} run(s) ` +
+        `and ${result.looseFilesRemoved} loose file(s); kept ${result.kept} (${result.confirmed.length} with confirmations, ${result.unconfirmed.length} submitted unconfirmed)` +
+        (result.looseConfirmationsKept ? ` and ${result.looseConfirmationsKept} old confirmation screenshot(s).` : "."),
+    };
+  }
 
-    const page = this.page;
+  // ============================================
+  // CONFIGURATION
+  // ============================================
 
-    try {
-      // Dismiss any cookie banners before attempting to click buttons
-      await this.dismissCookieBanners(page);
-
-      // Scroll to bottom of page to make sure Next button is visible
-      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-      await page.waitForTimeout(1000);
-
-      // Click Next button - look for the visible one specifically
-      // UPS form has a blue "Next" button at the bottom
-      const nextSelectors = [
-        'button.ups-cta_primary:has-text("Next")',
-        'button[class*="primary"]:has-text("Next")',
-        'button:has-text("Next"):visible',
-        '#btnNext',
-        'button:has-text("Next")',
-      ];
-
-      let clicked = false;
-      for (const selector of nextSelectors) {
-        try {
-          const button = await page.$(selector);
-          if (button) {
-            const isVisible = await button.isVisible();
-            if (isVisible) {
-              await button.scrollIntoViewIfNeeded();
-              await button.click({ force: true });
-              clicked = true;
-              break;
-            }
-          }
-        } catch {
-          continue;
-        }
-      }
+  /**
+   * Validates config.json without launching a browser or calling UPS.
+   *
+   * Runs the schema, resolves every credential (environment variables and
+   * secret commands included) and checks the calendar and TOTP secret.
+   *
+   * @returns Every problem found, placeholder warnings, and where each credential came from
+   */
+  async checkConfig(): Promise<any> {
+    const report = checkConfig(CONFIG_PATH);
+    if (!report.valid) {
+      return errorResult(
+        existsSync(CONFIG_PATH) ? "CONFIG_INVALID" : "CONFIG_MISSING",
+        `${CONFIG_PATH} has ${report.problems.length} problem(s): ${report.problems.join("; ")}`,
+        { success: false, ...report }
+      );
+    }
+    return {
+      success: true,
+      ...report,
+      message: `${CONFIG_PATH} is valid` +
+        (report.warnings.length > 0 ? `, with ${report.warnings.length} warning(s)` : "") + ".",
+    };
+  }
 
-      if (!clicked) {
-        // Try clicking via JavaScript as fallback
-        await page.evaluate(() => {
-          const buttons = Array.from(document.querySelectorAll('button'));
-          const nextButton = buttons.find(b => b.textContent?.toLowerCase().includes('next') && b.offsetParent !== null);
-          if (nextButton) (nextButton as HTMLElement).click();
-        });
-      }
+  // ============================================
+  // PROFILES
+  // ============================================
 
-      await page.waitForLoadState("domcontentloaded");
-      await page.waitForTimeout(3000);
-
-      // Dismiss any cookie banners on review page
-      await this.dismissCookieBanners(page);
-
-      // Take screenshot of review page
-      const reviewScreenshot = `${SCREENSHOT_DIR}/ups-review-${Date.now()}.png`;
-      await page.screenshot({ path: reviewScreenshot, fullPage: true });
-
-      // Look for final submit button on review page
-      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
-      await page.waitForTimeout(500);
-
-      const submitSelectors = [
-        'button.ups-cta_primary:has-text("Schedule")',
-        'button[class*="primary"]:has-text("Schedule")',
-        'button:has-text("Schedule Pickup")',
-        'button:has-text("Submit")',
-        'button:has-text("Confirm")',
-        '#btnSubmit',
-      ];
-
-      clicked = false;
-      for (const selector of submitSelectors) {
-        try {
-          const button = await page.$(selector);
-          if (button) {
-            const isVisible = await button.isVisible();
-            if (isVisible) {
-              await button.scrollIntoViewIfNeeded();
-              await button.click({ force: true });
-              clicked = true;
-              break;
-            }
-          }
-        } catch {
-          continue;
-        }
-      }
+  /**
+   * Lists the collection profiles defined in config.json.
+   *
+   * @returns Profile names with their address details and the default profile
+   */
+  async listProfiles(): Promise<any> {
+    const profiles = this.config.profiles || {};
+    const names = Object.keys(profiles);
+    const defaultProfile = this.config.defaultProfile || names[0] || null;
 
-      if (!clicked) {
-        // Try clicking via JavaScript as fallback
-        await page.evaluate(() => {
-          const buttons = Array.from(document.querySelectorAll('button'));
-          const submitButton = buttons.find(b =>
-            (b.textContent?.toLowerCase().includes('schedule') ||
-             b.textContent?.toLowerCase().includes('submit') ||
-             b.textContent?.toLowerCase().includes('confirm')) &&
-            b.offsetParent !== null
-          );
-          if (submitButton) (submitButton as HTMLElement).click();
-        });
-      }
+    return {
+      success: true,
+      defaultProfile,
+      profiles: names.map((name) => ({
+        name,
+        isDefault: name === defaultProfile,
+        ...profiles[name],
+      })),
+    };
+  }
 
-      await page.waitForLoadState("domcontentloaded");
-      await page.waitForTimeout(5000);
+  // ============================================
+  // SESSION MANAGEMENT
+  // ============================================
 
-      // Take confirmation screenshot
-      const confirmationScreenshot = `${SCREENSHOT_DIR}/ups-confirmation-${Date.now()}.png`;
-      await page.screenshot({ path: confirmationScreenshot, fullPage: true });
+  /**
+   * Reports where the current session is.
+   *
+   * Checks over CDP whether the browser is still running and which page it
+   * is on, falling back to the last page recorded in the session.
+   *
+   * @returns State and when it was entered, open page URL, when the session
+   *   goes stale, browser reachability, the states it may move to next and
+   *   which command holds the session lock
+   */
+  async status(): Promise<any> {
+    const session = readSession();
+    const state = session?.state ?? "idle";
+    const browser = await probeBrowser(session?.wsEndpoint);
+    const lock = readLock();
+    const lockStale = lock ? staleReason(lock) : null;
+
+    // Only a live UPS login goes stale; idle and finished sessions have nothing to lose
+    const live = session && !["idle", "submitted", "failed"].includes(state);
+    const stale = live ? staleAt(session, this.config.sessionTtlMinutes ?? DEFAULT_SESSION_TTL_MINUTES) : null;
+    const isStale = !!stale && stale.getTime() <= Date.now();
+
+    let message = session ? `Session is ${state} since ${session.stateChangedAt}.` : "No session. Call fill-form or book to start one.";
+    if (isStale) {
+      message += " It is stale: run reset and fill the form again.";
+    }
+    if (lock && !lockStale) {
+      message += ` Busy: ${lock.operation} (pid ${lock.pid}) is running.`;
+    }
 
-      // Try to extract confirmation details from page
-      const confirmation = await this.extractConfirmation(page);
+    return {
+      success: true,
+      state,
+      stateChangedAt: session?.stateChangedAt ?? null,
+      driver: session?.driver ?? this.driver.name,
+      pageUrl: browser.pageUrl ?? session?.pageUrl ?? null,
+      staleAt: stale ? stale.toISOString() : null,
+      stale: isStale,
+      browser,
+      nextStates: nextStates(state),
+      formState: session?.formState ?? null,
+      runId: session?.runId ?? null,
+      pendingCancellation: session?.pendingCancellation ?? null,
+      lock: lock ? { ...lock, stale: lockStale } : null,
+      message,
+    };
+  }
+
+  /**
+   * Closes browser session and clears saved state.
+   *
+   * Call this to start fresh or after completing a booking.
+   *
+   * @returns Success/error result
+   */
+  async reset(): Promise<any> {
+    return this.exclusive("reset", undefined, async () => {
+      return this.driver.reset();
+    });
+  }
 
-      // Close browser after successful booking
-      await this.reset();
+  /**
+   * Forgets the saved UPS login and closes the browser, so the next run
+   * logs in from scratch.
+   *
+   * @returns Whether a saved login was removed
+   */
+  async logout(): Promise<any> {
+    return this.exclusive("logout", undefined, async () => {
+      const removed = clearAuthState();
+      const reset = await this.driver.reset();
+      if (reset.error) {
+        return { ...reset, removed };
+      }
 
       return {
         success: true,
-        fillScreenshot: fillResult.screenshot,
-        reviewScreenshot,
-        confirmationScreenshot,
-        formState: fillResult.formState,
-        confirmation,
-        message: "Collection booked successfully.",
+        removed,
+        path: AUTH_STATE_PATH,
+        message: removed ? "Saved login cleared; the next run will log in again." : "No saved login to clear.",
       };
-    } catch (error: any) {
-      const errorScreenshot = `${SCREENSHOT_DIR}/ups-book-error-${Date.now()}.png`;
-      await page.screenshot({ path: errorScreenshot, fullPage: true });
-
-      return {
-        error: true,
-        message: `Booking failed during submit: ${error.message}`,
-        fillScreenshot: fillResult.screenshot,
-        errorScreenshot,
-      };
-    }
+    });
   }
 }
@@ -0,0 +1,145 @@
+/**
+ * Login Verification Codes
+ *
+ * When UPS challenges a login with a one-time code, the code is taken from
+ * the first source configured under "ups.verification" in config.json:
+ *
+ * 1. totpSecret: generated locally from the authenticator secret (RFC 6238)
+ * 2. command: a shell command that prints the code (e.g. a mailbox scraper)
+ * 3. file: a file written after the challenge started
+ * 4. stdin: typed at the prompt, or piped in (always tried when interactive)
+ *
+ * A code given with --verification-code is used before any of them.
+ */
+
+import { createHmac } from "crypto";
+import { exec } from "child_process";
+import { existsSync, readFileSync, statSync } from "fs";
+import { createInterface } from "readline/promises";
+import { promisify } from "util";
+import type { VerificationConfig } from "./types.js";
+
+export type CodeSource = "option" | "totp" | "command" | "file" | "stdin";
+
+export interface VerificationCodeResult {
+  code: string | null;
+  source: CodeSource | null;
+  /** Why each source tried before the answer (or all of them) gave nothing */
+  tried: string[];
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const FILE_POLL_MS = 2000;
+const CODE_PATTERN = /\b(\d{4,8})\b/;
+
+const execAsync = promisify(exec);
+
+function decodeBase32(value: string): Buffer {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  const clean = value.replace(/[\s=-]/g, "").toUpperCase();
+  let bits = "";
+  for (const char of clean) {
+    const index = alphabet.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base32 character "${char}" in TOTP secret`);
+    }
+    bits += index.toString(2).padStart(5, "0");
+  }
+  const bytes = bits.match(/.{8}/g) || [];
+  return Buffer.from(bytes.map((byte) => parseInt(byte, 2)));
+}
+
+/** Time-based one-time password (RFC 6238, HMAC-SHA1) for a base32 secret. */
+export function totp(secret: string, now: number = Date.now(), digits = 6, stepSeconds = 30): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / stepSeconds)));
+  const hmac = createHmac("sha1", decodeBase32(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** digits).padStart(digits, "0");
+}
+
+/** Why a code given with --verification-code is not one, or null if it is. */
+export function verificationCodeProblem(code: string): string | null {
+  return /^\d{4,8}$/.test(code.trim()) ? null : `Verification code "${code}" must be the 4 to 8 digits UPS sent`;
+}
+
+/** Pulls the first 4-8 digit code out of text such as an email body. */
+export function extractCode(text: string): string | null {
+  return text.match(CODE_PATTERN)?.[1] ?? null;
+}
+
+async function fromCommand(command: string, timeoutMs: number): Promise<string | null> {
+  const { stdout } = await execAsync(command, { timeout: timeoutMs });
+  return extractCode(stdout);
+}
+
+// Only a file written after the challenge counts, so an old code is never reused
+async function fromFile(path: string, since: number, timeoutMs: number): Promise<string | null> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (existsSync(path) && statSync(path).mtimeMs >= since) {
+      const code = extractCode(readFileSync(path, "utf-8"));
+      if (code) {
+        return code;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, FILE_POLL_MS));
+  }
+  return null;
+}
+
+async function fromStdin(timeoutMs: number): Promise<string | null> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr, terminal: !!process.stdin.isTTY });
+  try {
+    const answer = await prompt.question("UPS verification code: ", { signal: AbortSignal.timeout(timeoutMs) });
+    return extractCode(answer);
+  } finally {
+    prompt.close();
+  }
+}
+
+/**
+ * Gets a verification code from the configured sources, in order.
+ *
+ * @param config - "ups.verification" from config.json
+ * @param since - When the challenge appeared; older code files are ignored
+ * @returns The code and its source, or null with what was tried
+ */
+export async function obtainVerificationCode(
+  config: VerificationConfig = {},
+  since: number = Date.now()
+): Promise<VerificationCodeResult> {
+  const timeoutMs = (config.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const tried: string[] = [];
+
+  const sources: [CodeSource, () => Promise<string | null>][] = [];
+  if (config.totpSecret) {
+    sources.push(["totp", async () => totp(config.totpSecret!)]);
+  }
+  if (config.command) {
+    sources.push(["command", () => fromCommand(config.command!, timeoutMs)]);
+  }
+  if (config.file) {
+    sources.push(["file", () => fromFile(config.file!, since, timeoutMs)]);
+  }
+  if (config.stdin || process.stdin.isTTY) {
+    sources.push(["stdin", () => fromStdin(timeoutMs)]);
+  }
+  if (sources.length === 0) {
+    tried.push("no code source configured (ups.verification) and stdin is not interactive");
+  }
+
+  for (const [source, read] of sources) {
+    try {
+      const code = await read();
+      if (code) {
+        return { code, source, tried };
+      }
+      tried.push(`${source}: no code found`);
+    } catch (error: any) {
+      tried.push(`${source}: ${error.message}`);
+    }
+  }
+  return { code: null, source: null, tried };
+}
@@ -0,0 +1,204 @@
+/**
+ * Webhook Notifications
+ *
+ * POSTs the outcome of fill-form, submit, book and cancel --confirm to the
+ * URLs under "webhooks" in config.json, so the team hears about bookings
+ * without reading the agent transcript.
+ *
+ * Templates:
+ * - json (default): the outcome, FormState, parsed confirmation and
+ *   screenshot paths (see WebhookPayload)
+ * - slack: a message for a Slack incoming webhook
+ *
+ * With a secret, each request is signed: X-UPS-Signature is
+ * "sha256=" + hex HMAC-SHA256 of "<X-UPS-Timestamp>.<body>". Failed
+ * deliveries (network errors, 408, 429 and 5xx) are retried with backoff.
+ * A webhook never fails the command; delivery results are reported on it.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { backoffDelay, RetryPolicy } from "./retry.js";
+import type { FormState } from "./types.js";
+
+export type WebhookEvent = "fill-form" | "submit" | "book" | "cancel";
+export type WebhookOutcome = "success" | "failure";
+
+/** One destination; an entry in "webhooks" in config.json. */
+export interface WebhookConfig {
+  url: string;
+  /** "json" (default) or "slack" */
+  template?: "json" | "slack";
+  /** Commands to report (default: all) */
+  events?: WebhookEvent[];
+  /** Outcomes to report (default: both) */
+  outcomes?: WebhookOutcome[];
+  /** HMAC secret for X-UPS-Signature */
+  secret?: string;
+  /** Environment variable holding the secret, instead of secret */
+  secretEnv?: string;
+  /** Extra request headers, e.g. an Authorization token */
+  headers?: Record<string, string>;
+  /** Total tries (default 3) */
+  attempts?: number;
+  /** Wait before the first retry, doubling after (default 1000) */
+  backoffMs?: number;
+  /** Per-request timeout (default 10000) */
+  timeoutMs?: number;
+}
+
+/** Body of a "json" webhook. */
+export interface WebhookPayload {
+  event: WebhookEvent;
+  outcome: WebhookOutcome;
+  code: string | null;
+  message: string | null;
+  timestamp: string;
+  driver: string;
+  runId: string | null;
+  formState: FormState | null;
+  confirmation: Record<string, any> | null;
+  screenshots: Record<string, string>;
+}
+
+/** How one webhook delivery went. */
+export interface WebhookDelivery {
+  name: string;
+  url: string;
+  delivered: boolean;
+  /** HTTP status of the last try, null if it never got a response */
+  status: number | null;
+  attempts: number;
+  error?: string;
+}
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/** Signature header value for a body sent at a time (unix seconds). */
+export function signPayload(secret: string, timestamp: string, body: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/** Checks a signature header, for receivers and tests. */
+export function verifySignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Slack message for a payload. */
+export function slackMessage(payload: WebhookPayload): Record<string, any> {
+  const form = payload.formState;
+  const where = form ? `${form.company}, ${form.postalCode}` : "unknown address";
+  const when = form ? `${form.date} ${form.earliestTime}-${form.latestTime}` : "unknown date";
+  const confirmationNumber = payload.confirmation?.confirmationNumber;
+
+  const text = payload.outcome === "success"
+    ? `:white_check_mark: UPS ${payload.event} succeeded for ${when} at ${where}` +
+      (confirmationNumber ? ` (confirmation ${confirmationNumber})` : "")
+    : `:x: UPS ${payload.event} failed for ${when} at ${where}: ${payload.code} ${payload.message ?? ""}`.trim();
+
+  const fields = [
+    { type: "mrkdwn", text: `*Date*\n${when}` },
+    { type: "mrkdwn", text: `*Address*\n${where}` },
+  ];
+  if (form) {
+    fields.push({ type: "mrkdwn", text: `*Packages*\n${form.packages} (${form.weight} kg)` });
+  }
+  if (confirmationNumber) {
+    fields.push({ type: "mrkdwn", text: `*Confirmation*\n${confirmationNumber}` });
+  }
+
+  return {
+    text,
+    blocks: [
+      { type: "section", text: { type: "mrkdwn", text } },
+      { type: "section", fields },
+    ],
+  };
+}
+
+/** Whether a webhook wants this event and outcome. */
+export function wantsEvent(webhook: WebhookConfig, event: WebhookEvent, outcome: WebhookOutcome): boolean {
+  return (!webhook.events || webhook.events.includes(event)) && (!webhook.outcomes || webhook.outcomes.includes(outcome));
+}
+
+// Worth another try: no response, a timeout, rate limiting or a server error
+function retryable(status: number | null): boolean {
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * POSTs a payload to one webhook, retrying failed deliveries.
+ *
+ * @param sleep - Waits between tries (replaced in tests)
+ */
+export async function deliverWebhook(
+  name: string,
+  webhook: WebhookConfig,
+  payload: WebhookPayload,
+  sleep: (ms: number) => Promise<void> = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+): Promise<WebhookDelivery> {
+  const body = JSON.stringify(webhook.template === "slack" ? slackMessage(payload) : payload);
+  const secret = webhook.secret ?? (webhook.secretEnv ? process.env[webhook.secretEnv] : undefined);
+  const policy: RetryPolicy = {
+    attempts: webhook.attempts ?? DEFAULT_ATTEMPTS,
+    backoffMs: webhook.backoffMs ?? DEFAULT_BACKOFF_MS,
+    maxBackoffMs: 30000,
+    retryOn: [],
+  };
+  // Same id on every try, so receivers can drop duplicates
+  const deliveryId = randomUUID();
+
+  const delivery: WebhookDelivery = { name, url: webhook.url, delivered: false, status: null, attempts: 0 };
+  for (let attempt = 1; attempt <= policy.attempts; attempt++) {
+    delivery.attempts = attempt;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "ups-collection-manager",
+      "X-UPS-Event": payload.event,
+      "X-UPS-Delivery": deliveryId,
+      ...webhook.headers,
+    };
+    if (secret) {
+      headers["X-UPS-Timestamp"] = timestamp;
+      headers["X-UPS-Signature"] = signPayload(secret, timestamp, body);
+    }
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(webhook.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      delivery.status = response.status;
+      if (response.ok) {
+        delivery.delivered = true;
+        delete delivery.error;
+        return delivery;
+      }
+      delivery.error = `HTTP ${response.status} ${(await response.text()).slice(0, 200)}`.trim();
+    } catch (error: any) {
+      delivery.status = null;
+      delivery.error = error.message;
+    }
+
+    if (!retryable(delivery.status) || attempt === policy.attempts) {
+      break;
+    }
+    await sleep(backoffDelay(policy, attempt));
+  }
+  return delivery;
+}
+
+/** Sends a payload to every webhook that wants it, in parallel. */
+export async function deliverWebhooks(
+  webhooks: Record<string, WebhookConfig>,
+  payload: WebhookPayload
+): Promise<WebhookDelivery[]> {
+  const targets = Object.entries(webhooks).filter(([, webhook]) => wantsEvent(webhook, payload.event, payload.outcome));
+  return Promise.all(targets.map(([name, webhook]) => deliverWebhook(name, webhook, payload)));
+}